@@ -0,0 +1,96 @@
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getOrdsClient, listDemandsPage, setOrdsClient } from '../src/api';
+import { createOrdsClient, type OrdsClient } from '../src/ords/client';
+import { AuthRequiredError, PreconditionFailedError, ValidationError } from '../src/ords/errors';
+import type { MemoryTransport, Row } from '../src/ords/memoryTransport';
+import { DEFAULT_MOCK_CREDENTIALS, startMockOrdsServer } from './ordsServer';
+
+// The real client, over HTTP, against the mock with the production quirks on
+
+type List = { items: Row[]; hasMore: boolean; limit: number; offset: number };
+
+let server: Server;
+let tables: MemoryTransport['tables'];
+let ords: OrdsClient;
+
+beforeAll(async () => {
+  const mock = await startMockOrdsServer(0);
+  server = mock.server;
+  tables = mock.transport.tables;
+  ords = createOrdsClient({ baseUrl: mock.url, auth: { type: 'basic', ...DEFAULT_MOCK_CREDENTIALS }, maxRetries: 0 });
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe('mock ORDS server', () => {
+  it('pages collections with items and hasMore', async () => {
+    const total = tables.demands.length;
+    const seen: Row[] = [];
+    for (let offset = 0, hasMore = true; hasMore; offset += 4) {
+      const page = await ords.get<List>('/demands/', { query: { limit: 4, offset } });
+      expect(page.items.length).toBeLessThanOrEqual(4);
+      expect(page.hasMore).toBe(offset + 4 < total);
+      seen.push(...page.items);
+      hasMore = page.hasMore;
+    }
+    expect(seen.map((r) => r.ID)).toEqual(tables.demands.map((r) => r.id));
+  });
+
+  it('filters with q=', async () => {
+    const q = JSON.stringify({ status: 'Under Review', current_stage: { $in: ['Screening', 'Assessment'] } });
+    const page = await ords.get<List>('/demands/', { query: { q, limit: 100 } });
+    const expected = tables.demands.filter((r) => r.status === 'Under Review' && ['Screening', 'Assessment'].includes(String(r.current_stage)));
+    expect(page.items.map((r) => r.ID)).toEqual(expected.map((r) => r.id));
+    expect(page.items.length).toBeGreaterThan(0);
+  });
+
+  it('answers with UPPER_CASE columns that the api layer normalizes', async () => {
+    const original = getOrdsClient();
+    setOrdsClient(ords);
+    try {
+      const page = await listDemandsPage({ filter: { status: 'Draft' }, limit: 100 });
+      expect(page.items.length).toBeGreaterThan(0);
+      expect(page.items.every((d) => d.status === 'Draft' && typeof d.title === 'string')).toBe(true);
+    } finally {
+      setOrdsClient(original);
+    }
+  });
+
+  describe('writes', () => {
+    let id: string;
+
+    beforeAll(async () => {
+      const created = await ords.post<Row>('/demands/', { TITLE: 'Integration test', TYPE: 'Support', PRIORITY: 'LOW', STATUS: 'Draft' });
+      id = String(created.ID);
+    });
+
+    it('refuses writes without credentials', async () => {
+      const anonymous = createOrdsClient({ baseUrl: ords.baseUrl, maxRetries: 0 });
+      await expect(anonymous.post('/demands/', { TITLE: 'Nope' })).rejects.toBeInstanceOf(AuthRequiredError);
+    });
+
+    it('sends an ETag and refuses a write against a stale one with 412', async () => {
+      const { data, etag } = await ords.versioned<Row>(`/demands/${id}`);
+      expect(etag).toBeTruthy();
+      const row: Row = { ...data, TITLE: 'Renamed' };
+      delete row.links;
+
+      const saved = await ords.versioned<Row>(`/demands/${id}`, { method: 'PUT', body: row, headers: { 'If-Match': etag! } });
+      expect(saved.data.TITLE).toBe('Renamed');
+      expect(saved.etag).not.toBe(etag);
+
+      const stale = ords.put(`/demands/${id}`, { ...row, TITLE: 'Too late' }, { headers: { 'If-Match': etag! } });
+      await expect(stale).rejects.toBeInstanceOf(PreconditionFailedError);
+      expect(tables.demands.find((r) => r.id === id)?.title).toBe('Renamed');
+    });
+
+    it('deletes only with a JSON body', async () => {
+      await expect(ords.delete(`/demands/${id}`)).rejects.toBeInstanceOf(ValidationError);
+      expect(tables.demands.some((r) => r.id === id)).toBe(true);
+
+      await ords.delete(`/demands/${id}`, { body: { ID: id } });
+      expect(tables.demands.some((r) => r.id === id)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Plugin } from 'vite';
+import { createMemoryTransport, type MemoryTransport, type Row } from '../src/ords/memoryTransport';
+import { seedTables } from '../src/repository/seed';
+
+/* ------------------------------
+ * Mock ORDS server
+ * ------------------------------ */
+
+// A stand-in for the ORDS AutoREST service, so the app and integration tests run with
+// no network. It serves the in-memory ORDS (src/ords/memoryTransport.ts), seeded with
+// the demo data, over real HTTP, with the quirks of the production install turned on:
+// UPPER_CASE columns, `links` metadata, ETags, DELETE needing a JSON body, and 401 on
+// writes without credentials. `npm run dev:mock` points the Vite `/api` proxy at it.
+
+export const MOCK_ORDS_BASE_PATH = '/ords/itdm';
+
+export interface MockOrdsOptions {
+  // Tables to start from; defaults to the seed data the local backends use
+  tables?: Record<string, Row[]>;
+  // Basic credentials writes must carry; null lets anyone write
+  credentials?: { username: string; password: string } | null;
+  // PATCH gets 405 unless enabled, as on plain AutoREST
+  allowPatch?: boolean;
+}
+
+export const DEFAULT_MOCK_CREDENTIALS = { username: 'itdm', password: 'itdm' };
+
+export function basicAuthorization({ username, password }: { username: string; password: string }): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+function readBody(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(chunks.length ? Buffer.concat(chunks).toString('utf8') : undefined));
+    req.on('error', reject);
+  });
+}
+
+// Node request handler over the in-memory ORDS; `transport.tables` exposes the data
+export function createMockOrdsHandler(options: MockOrdsOptions = {}) {
+  const credentials = options.credentials === undefined ? DEFAULT_MOCK_CREDENTIALS : options.credentials;
+  const expected = credentials ? basicAuthorization(credentials) : undefined;
+
+  const transport: MemoryTransport = createMemoryTransport({
+    basePath: MOCK_ORDS_BASE_PATH,
+    tables: options.tables ?? { ...seedTables() },
+    allowPatch: options.allowPatch ?? false,
+    upperCaseColumns: true,
+    links: true,
+    deleteRequiresBody: true,
+    authorizeWrite: expected ? (authorization) => authorization === expected : undefined,
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value ?? ''])
+      );
+      const url = `http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`;
+      const response = await transport(url, { method: req.method, headers, body: await readBody(req) });
+      res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+      res.end(await response.text());
+    } catch (error) {
+      // ORDS reports handler failures as 555 with a JSON body
+      res.writeHead(555, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ code: 'UserDefinedResourceError', message: String(error) }));
+    }
+  }
+
+  return Object.assign(handle, { transport });
+}
+
+// Listens on `port` (0 picks a free one); resolves once it is accepting connections
+export async function startMockOrdsServer(port = 0, options: MockOrdsOptions = {}): Promise<{ server: Server; url: string; transport: MemoryTransport }> {
+  const handler = createMockOrdsHandler(options);
+  const server = createServer((req, res) => void handler(req, res));
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+  const { port: actual } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${actual}${MOCK_ORDS_BASE_PATH}`, transport: handler.transport };
+}
+
+// Starts the mock with the dev server and stops it with it
+export function mockOrdsPlugin(port: number, options: MockOrdsOptions = {}): Plugin {
+  let running: Server | undefined;
+  return {
+    name: 'mock-ords',
+    apply: 'serve',
+    async configureServer(vite) {
+      running = (await startMockOrdsServer(port, options)).server;
+      vite.config.logger.info(`  Mock ORDS listening on http://127.0.0.1:${port}${MOCK_ORDS_BASE_PATH}`);
+      vite.httpServer?.once('close', () => running?.close());
+    },
+  };
+}
@@ -1,51 +1,30 @@
-/*
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
-import './App.css'
-
-function App() {
-  const [count, setCount] = useState(0)
-
-  return (
-    <>
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      <h1>Vite + React</h1>
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
-  )
-}
-*/
-export default App
-
-import React from 'react';
 import { RBACProvider } from './rbac/context';
-import { RequireAuth } from './components/access/RequireAuth';
-import DemandManagementSystem from './DemandManagementSystem';
+import { getRoleMappingError } from './rbac/roleMapping';
+import { getWorkflowError } from './workflow';
+import DemandManagementSystem from './apex_demand_management';
 
+// The app under MsalProvider (see main.tsx). Roles and permissions come from the
+// signed-in user's AAD token through RBACProvider; nothing below picks its own.
+// If this environment's role mapping failed to load, nobody has a role; if its
+// workflow did, no demand moves. A banner says why.
 function App() {
+  const mappingError = getRoleMappingError();
+  const workflowError = getWorkflowError();
   return (
     <RBACProvider>
-      <RequireAuth>
-        <DemandManagementSystem />
-      </RequireAuth>
+      {mappingError && (
+        <div role="alert" className="bg-red-50 border-b border-red-200 px-4 py-3 text-sm text-red-800">
+          Access roles could not be loaded, so nobody has a role. Please contact an administrator.{' '}
+          <span className="text-red-600">{mappingError.message}</span>
+        </div>
+      )}
+      {workflowError && (
+        <div role="alert" className="bg-red-50 border-b border-red-200 px-4 py-3 text-sm text-red-800">
+          The workflow could not be loaded, so demands cannot be submitted or moved. Please contact an administrator.{' '}
+          <span className="text-red-600">{workflowError.message}</span>
+        </div>
+      )}
+      <DemandManagementSystem />
     </RBACProvider>
   );
 }
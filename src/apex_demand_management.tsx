@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useAADUser } from "./hooks/useAADUser";
 import {
   Search,
@@ -15,205 +15,89 @@ import {
   MessageCircle,
   GitCommit,
   AlertCircle,
+  Send,
 } from "lucide-react";
 
 // Types and API imports
-import type { Demand } from "./types";
-import { listDemands, createDemand, updateDemand, deleteDemand, softDeleteDemand, markAsDeletedInUI } from "./api";
-import { APP_CONFIG } from "./constants/app";
+import type { Delegation, Demand, DemandComment, DemandAudit, DemandApproval, DemandTransition } from "./types";
+import type { DemandSort, DemandSortField } from "./api";
+import { getRepository, listAllDemands } from "./repository";
+import { usePagedDemands } from "./hooks/usePagedDemands";
+import { useQuery } from "./hooks/useQuery";
+import { queryCache } from "./cache/queryCache";
+import {
+  delegationKeys,
+  demandKeys,
+  invalidateDemandLists,
+  invalidateTransitions,
+  patchCachedDemand,
+  removeCachedDemand,
+  setCachedDemand,
+} from "./cache/demandQueries";
+import { useDebouncedValue } from "./hooks/useDebouncedValue";
+import type { Versioned } from "./ords/client";
+import { ConflictError, NotFoundError, OrdsError, PreconditionFailedError, describeError } from "./ords/errors";
+import { diffFields, type FieldChange } from "./utils/diff";
+import { ConflictDialog } from "./components/demand/ConflictDialog";
+import { ConnectionHealth } from "./components/admin/ConnectionHealth";
+import { TrashView } from "./components/demand/TrashView";
+import { DelegationPanel } from "./components/demand/DelegationPanel";
+import { SlaBadge } from "./components/demand/SlaBadge";
+import { and, or } from "./ords/query";
+import { DemandAccess } from "./components/access/DemandAccess";
+import { RequirePermission } from "./components/access/RequirePermission";
+import { RoleGate } from "./components/access/RoleGate";
+import { useRBAC } from "./rbac/context";
+import { hasPermission } from "./rbac/permissions";
+import type { Role } from "./rbac/types";
+import {
+  approverFor,
+  buildWorkflow,
+  canReview,
+  canVote,
+  currentVotes,
+  cycleTimes,
+  delegationFor,
+  delegationsTo,
+  describeActor,
+  describeQuorum,
+  describeRoute,
+  escalationFilter,
+  findTransition,
+  getWorkflow,
+  isEscalatedTo,
+  planTransition,
+  returnTargets,
+  reviewQueueFilter,
+  selectRoute,
+  slaStatus,
+  stageEnteredAt,
+  summarizeSla,
+  stageFor,
+  tallyQuorum,
+  voterOf,
+  type QuorumDecision,
+  type WorkflowActor,
+} from "./workflow";
+import { BUSINESS_RULES } from "./constants/app";
 import { validateDemand, validateTitle, validateDescription, validateDemandType, validatePriority, sanitizeInput } from "./utils/validation";
 
 
-/**
- * -----------------------------------------------------------------------------------
- * Safe, local helpers for Comments / Audit / Approvals
- * - These are non-breaking placeholders; if you later add endpoints, they’ll be used.
- * -----------------------------------------------------------------------------------
- */
-
-type DemandComment = { id: string; author: string; body: string; createdAt: string };
-type DemandAudit = { id: string; who: string; at: string; action: string; note?: string | null };
-type DemandApproval = {
-  id: string;
-  role: string;
-  approver: string;
-  status: "Pending" | "Approved" | "Rejected";
-  decidedAt?: string | null;
-};
+// Stable empty lists, so memos over query data don't recompute on every render
+const NO_DEMANDS: Demand[] = [];
+const NO_COMMENTS: DemandComment[] = [];
+const NO_AUDIT: DemandAudit[] = [];
+const NO_APPROVALS: DemandApproval[] = [];
+const NO_TRANSITIONS: DemandTransition[] = [];
+const NO_DELEGATIONS: Delegation[] = [];
 
-//const API_BASE = "/api"; // via Vite proxy
-const API_BASE = (import.meta.env.VITE_API_BASE ?? '/api').replace(/\/+$/, '');
-
-interface ApiResponse {
-  items?: unknown[];
-  [key: string]: unknown;
-}
-
-interface CommentResponse {
-  id?: string;
-  ID?: string;
-  author?: string;
-  AUTHOR?: string;
-  body?: string;
-  BODY?: string;
-  created_at?: string;
-  CREATED_AT?: string;
-  createdAt?: string;
-}
-
-interface AuditResponse {
-  id?: string;
-  ID?: string;
-  who?: string;
-  WHO?: string;
-  at?: string;
-  AT?: string;
-  createdAt?: string;
-  action?: string;
-  ACTION?: string;
-  note?: string;
-  NOTE?: string;
-}
-
-interface ApprovalResponse {
-  id?: string;
-  ID?: string;
-  role?: string;
-  ROLE?: string;
-  approver?: string;
-  APPROVER?: string;
-  status?: string;
-  STATUS?: string;
-  decided_at?: string;
-  DECIDED_AT?: string;
-  decidedAt?: string;
-}
-
-async function tryJson<T>(res: Response): Promise<T> {
-  const ct = res.headers.get("content-type") || "";
-  if (!ct.includes("application/json")) {
-    throw new Error(await res.text());
-  }
-  return res.json() as Promise<T>;
-}
-
-// Comments (optional back-end)
-async function fetchComments(demandId: string): Promise<DemandComment[]> {
-  try {
-    const r = await fetch(`${API_BASE}/demands/${encodeURIComponent(demandId)}/comments?_format=json`);
-    if (!r.ok) return [];
-    const json = await tryJson<ApiResponse>(r);
-    return ((json.items as CommentResponse[]) ?? (json as unknown as CommentResponse[]) ?? []).map((x: CommentResponse) => ({
-      id: String(x.id ?? x.ID ?? crypto.randomUUID()),
-      author: x.author ?? x.AUTHOR ?? "Unknown",
-      body: x.body ?? x.BODY ?? "",
-      createdAt: x.created_at ?? x.CREATED_AT ?? x.createdAt ?? "",
-    }));
-  } catch (error) {
-    console.warn('Failed to fetch comments:', error);
-    return []; // keep UI alive even without endpoint
-  }
-}
-async function postComment(demandId: string, author: string, body: string): Promise<DemandComment> {
-  try {
-    const r = await fetch(`${API_BASE}/demands/${encodeURIComponent(demandId)}/comments`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Accept: "application/json" },
-      body: JSON.stringify({ author, body }),
-    });
-    if (!r.ok) throw new Error(await r.text());
-    const json = await tryJson<CommentResponse>(r);
-    return {
-      id: String(json.id ?? json.ID ?? crypto.randomUUID()),
-      author: json.author ?? author,
-      body: json.body ?? body,
-      createdAt: json.created_at ?? json.createdAt ?? new Date().toISOString(),
-    };
-  } catch {
-    throw new Error("Comments API is not configured yet.");
-  }
-}
-
-// Audit (optional back-end)
-async function fetchAudit(demandId: string): Promise<DemandAudit[]> {
-  try {
-    const r = await fetch(`${API_BASE}/demands/${encodeURIComponent(demandId)}/audit?_format=json`);
-    if (!r.ok) return [];
-    const json = await tryJson<ApiResponse>(r);
-    return ((json.items as AuditResponse[]) ?? (json as unknown as AuditResponse[]) ?? []).map((x: AuditResponse) => ({
-      id: String(x.id ?? x.ID ?? crypto.randomUUID()),
-      who: x.who ?? x.WHO ?? "system",
-      at: x.at ?? x.AT ?? x.createdAt ?? "",
-      action: x.action ?? x.ACTION ?? "",
-      note: x.note ?? x.NOTE ?? null,
-    }));
-  } catch (error) {
-    console.warn('Failed to fetch audit trail:', error);
-    return [];
-  }
-}
-
-// Approvals (optional back-end; the sequential logic below does not depend on these)
-async function fetchApprovals(demandId: string): Promise<DemandApproval[]> {
-  try {
-    // Try the working endpoint first, then fallback to the nested path
-    const endpoints = [
-      `${API_BASE}/xxitdm_approvals/?q={"demand_id":"${demandId}"}`,
-      `${API_BASE}/demands/${encodeURIComponent(demandId)}/approvals?_format=json`
-    ];
-    
-    for (const endpoint of endpoints) {
-      try {
-        const r = await fetch(endpoint);
-        if (r.ok) {
-          const json = await tryJson<ApiResponse>(r);
-          return ((json.items as ApprovalResponse[]) ?? (json as unknown as ApprovalResponse[]) ?? []).map((x: ApprovalResponse) => ({
-            id: String(x.id ?? x.ID ?? crypto.randomUUID()),
-            role: x.role ?? x.ROLE ?? "Approver",
-            approver: x.approver ?? x.APPROVER ?? "Unknown",
-            status: (x.status ?? x.STATUS ?? "Pending") as DemandApproval["status"],
-            decidedAt: x.decided_at ?? x.DECIDED_AT ?? x.decidedAt ?? null,
-          }));
-        }
-      } catch (error) {
-        console.warn(`Failed to fetch from ${endpoint}:`, error);
-        continue;
-      }
-    }
-    return [];
-  } catch (error) {
-    console.warn('Failed to fetch approvals:', error);
-    return [];
-  }
-}
-
-
-
-/** ----------------- Stage helpers (sequential flow) ------------------ */
-type Role = "Demand Requestor" | "BU Head" | "ITPMO" | "DBR";
-const STAGE_FLOW: Array<{ stage: string; role: Role | null }> = [
-  { stage: "Intake", role: "Demand Requestor" },
-  { stage: "Screening", role: "BU Head" },
-  { stage: "Assessment", role: "ITPMO" },
-  { stage: "Authorization", role: "DBR" },
-  { stage: "Service Portfolio Entry", role: null },
-];
-function stageIndex(stage?: string | null) {
-  const i = STAGE_FLOW.findIndex((s) => s.stage === (stage ?? "Intake"));
-  return i >= 0 ? i : 0;
-}
-function requiredRoleForStage(stage?: string | null): Role | null {
-  return STAGE_FLOW[stageIndex(stage)].role;
-}
-function nextStageFrom(stage?: string | null): string {
-  const i = stageIndex(stage);
-  return STAGE_FLOW[Math.min(i + 1, STAGE_FLOW.length - 1)].stage;
-}
+// What an Admin can view the app as
+const VIEW_AS_ROLES: Role[] = ["Demand Requestor", "BU Head", "ITPMO", "DBR"];
 
 /** ---------------------------- Component ----------------------------- */
 const DemandManagementSystem: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<
-    "dashboard" | "my-demands" | "submit-demand" | "approval-queue" | "portfolio" | "reports"
+  const [selectedTab, setActiveTab] = useState<
+    "dashboard" | "my-demands" | "submit-demand" | "approval-queue" | "portfolio" | "reports" | "trash" | "connection-health"
   >("my-demands");
 
   const [activeFormTab, setActiveFormTab] = useState<"basic-info" | "business-case" | "financial" | "attachments">(
@@ -234,17 +118,27 @@ const DemandManagementSystem: React.FC = () => {
   const safeUserName = currentUserName || import.meta.env.VITE_DEV_USER_NAME || "Unknown User";
   //SSO End
 
-  const [currentRole, setCurrentRole] = useState<Role>("Demand Requestor");
+  // ORDS, or the local backend picked by VITE_BACKEND
+  const repository = getRepository();
+  const rbac = useRBAC();
+  // Stages, approvers and allowed moves (the default, or the one from VITE_WORKFLOW_URL)
+  const workflow = getWorkflow();
+
+  // The user's roles as AAD verified them (see rbac/context.tsx). An Admin viewing the
+  // app as another role sees what that role sees, but makes no changes.
+  const roles = rbac.roles;
+  const viewOnly = rbac.viewingAs !== null;
+  // Status/stage changes are made as this user and one of their roles; the workflow guard checks both
+  const actingAs = (role: Role | undefined): WorkflowActor | undefined => (role && !viewOnly ? { name: safeUserName, id: rbac.id, role } : undefined);
+  // For the requestor's own moves: submit and resubmit
+  const actor = actingAs(roles.find((r) => hasPermission([r], "demand.create")));
   
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<
-    "" | "Draft" | "Submitted" | "Under Review" | "Approved" | "Rejected" | "Completed"
-  >("");
+  const [statusFilter, setStatusFilter] = useState<"" | Demand["status"]>("");
   const [typeFilter, setTypeFilter] = useState<"" | Demand["type"]>("");
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = APP_CONFIG.DEFAULT_PAGE_SIZE;
+  const [sort, setSort] = useState<DemandSort>({ field: "created_date", direction: "desc" });
+  const debouncedSearch = useDebouncedValue(searchTerm);
 
   const [formData, setFormData] = useState({
     title: "",
@@ -261,69 +155,127 @@ const DemandManagementSystem: React.FC = () => {
     budgetSource: "",
     costCategory: "",
     roi: "",
-    attachments: [] as { id: number; name: string; size: number; type: string }[],
+    attachments: [] as { id: number; name: string; size: number; type: string; file: File }[],
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
-  const [demands, setDemands] = useState<Demand[]>([]);
   const [showModal, setShowModal] = useState(false);
-  const [selectedDemand, setSelectedDemand] = useState<Demand | null>(null);
+  // The row that was clicked; the modal shows the cached (fresher) copy once loaded
+  const [selectedRow, setSelectedRow] = useState<Demand | null>(null);
   const [detailTab, setDetailTab] = useState<"details" | "comments" | "audit" | "approvals">("details");
-
-  // Comments/Audit/Approvals state
-  const [comments, setComments] = useState<DemandComment[]>([]);
-  const [audit, setAudit] = useState<DemandAudit[]>([]);
+  const [conflict, setConflict] = useState<{
+    latest: Versioned<Demand>;
+    changes: FieldChange<Demand>[];
+    attempted: Partial<Demand>;
+    action: "approve" | "reject" | "return";
+  } | null>(null);
+  // "Return for info" form in the Approvals tab: where to send the demand, and why
+  const [returnDraft, setReturnDraft] = useState<{ to: string; reason: string } | null>(null);
+
+  // The selected demand (with its ETag, for optimistic concurrency on approve/reject)
+  // and its sub-resources, all from the query cache. Closing the modal cancels
+  // whatever is still loading; reopening a demand shows cached data at once.
+  const selectedId = showModal ? selectedRow?.id : undefined;
+  const detailQuery = useQuery(demandKeys.detail(selectedId ?? ""), (signal) => repository.getDemand(selectedId!, { signal }), {
+    enabled: !!selectedId,
+  });
+  const commentsQuery = useQuery(demandKeys.comments(selectedId ?? ""), (signal) => repository.listComments(selectedId!, { signal }), {
+    enabled: !!selectedId,
+  });
+  const auditQuery = useQuery(demandKeys.audit(selectedId ?? ""), (signal) => repository.listAudit(selectedId!, { signal }), {
+    enabled: !!selectedId,
+  });
+  const approvalsQuery = useQuery(demandKeys.approvals(selectedId ?? ""), (signal) => repository.listApprovals(selectedId!, { signal }), {
+    enabled: !!selectedId,
+  });
+  const historyQuery = useQuery(demandKeys.transitions(selectedId ?? ""), (signal) => repository.listTransitions(selectedId!, { signal }), {
+    enabled: !!selectedId,
+  });
+  // Without the fresh copy approve/reject still work, just without If-Match from this snapshot
+  const selectedDemand = detailQuery.data?.data ?? selectedRow;
+  const selectedEtag = detailQuery.data?.etag;
+  const comments = commentsQuery.data ?? NO_COMMENTS;
+  const audit = auditQuery.data ?? NO_AUDIT;
+  const approvals = approvalsQuery.data ?? NO_APPROVALS;
+  const history = historyQuery.data ?? NO_TRANSITIONS;
   const [newComment, setNewComment] = useState("");
-  const [approvals, setApprovals] = useState<DemandApproval[]>([]);
   const pendingApprovals = useMemo(() => approvals.filter((a) => a.status === "Pending"), [approvals]);
 
-  useEffect(() => {
-    (async () => {
-      try {
-        const rows = await listDemands(APP_CONFIG.MAX_API_LIMIT); // Get all demands for pagination
-        setDemands(rows);
-      } catch (e) {
-        console.error(e);
-      }
-    })();
-  }, []);
-
-  async function reloadDemands() {
-    try {
-      const rows = await listDemands(APP_CONFIG.MAX_API_LIMIT); // Get all demands for pagination
-      setDemands(rows);
-    } catch (error) {
-      console.error('Failed to reload demands:', error);
-    }
-  }
-
-  const filteredDemands = demands.filter((d) => {
-    const s = searchTerm.toLowerCase();
-    const matchesSearch =
-      d.title.toLowerCase().includes(s) ||
-      d.id.toLowerCase().includes(s) ||
-      (d.description || "").toLowerCase().includes(s);
-    const matchesStatus = !statusFilter || d.status === statusFilter;
-    const matchesType = !typeFilter || d.type === typeFilter;
-    return matchesSearch && matchesStatus && matchesType;
+  // Every list asks the database for only the demands the access policy lets the user see
+  const viewScope = rbac.scope("view");
+
+  // Dashboard and reports need every row
+  const allDemands = useQuery(demandKeys.list(["all", viewScope ?? null]), (signal) => listAllDemands({ where: viewScope }, { signal }));
+  const demands = allDemands.data ?? NO_DEMANDS;
+
+  // My Demands table: only the current page is loaded, filtered and sorted by ORDS
+  const demandPage = usePagedDemands({
+    filter: {
+      search: debouncedSearch || undefined,
+      status: statusFilter || undefined,
+      type: typeFilter || undefined,
+    },
+    where: viewScope,
+    sort: [sort, ...(sort.field === "id" ? [] : [{ field: "id" as const, direction: "desc" as const }])],
   });
+  const startIndex = (demandPage.page - 1) * demandPage.pageSize;
+
+  // Approvals the user gives for someone who is away
+  const delegationsQuery = useQuery(delegationKeys.all, (signal) => repository.listDelegations({ signal }));
+  const delegations = delegationsQuery.data ?? NO_DELEGATIONS;
+  const delegatedToMe = delegationsTo(delegations, rbac.id);
+
+  // Approval Queue: the database picks the demands at the stages the user's roles sign
+  // off that the access policy lets them approve, at the stages of anyone they stand in
+  // for, and those overdue below their roles
+  const escalated = roles.flatMap((r) => escalationFilter(workflow, r) ?? []);
+  const queueParts = [
+    ...(roles.length ? [and(reviewQueueFilter(workflow, roles), rbac.scope("approve"))] : []),
+    ...(delegatedToMe.length ? [reviewQueueFilter(workflow, [], delegatedToMe)] : []),
+    ...escalated,
+  ];
+  const approvalQueue = usePagedDemands({
+    filter: { status: workflow.reviewStatuses },
+    where: queueParts.length === 1 ? queueParts[0] : or(...queueParts),
+    sort: [{ field: "created_date", direction: "asc" }, { field: "id", direction: "asc" }],
+    enabled: queueParts.length > 0,
+  });
+  const queueStartIndex = (approvalQueue.page - 1) * approvalQueue.pageSize;
+
+  // Tabs the user's roles and permissions open. A tab that closes while open (an Admin
+  // stops viewing as a role) falls back to My Demands.
+  const tabs: { id: typeof selectedTab; label: string }[] = [
+    { id: "dashboard", label: "Dashboard" },
+    { id: "my-demands", label: "My Demands" },
+    ...(rbac.hasPermission("demand.create") ? [{ id: "submit-demand" as const, label: "Submit New Demand" }] : []),
+    ...(rbac.hasPermission("demand.approve") || delegatedToMe.length > 0 ? [{ id: "approval-queue" as const, label: "Approval Queue" }] : []),
+    ...(rbac.hasPermission("demand.read") ? [{ id: "portfolio" as const, label: "Portfolio" }] : []),
+    ...(rbac.hasPermission("reports.view") ? [{ id: "reports" as const, label: "Reports" }] : []),
+    ...(roles.some((r) => r === "Admin" || r === "ITPMO") ? [{ id: "trash" as const, label: "Trash" }] : []),
+    // Admins only
+    ...(rbac.hasPermission("admin.system") ? [{ id: "connection-health" as const, label: "Connection Health" }] : []),
+  ];
+  const activeTab = tabs.some((t) => t.id === selectedTab) ? selectedTab : "my-demands";
+
+  function toggleSort(field: DemandSortField) {
+    setSort((prev) =>
+      prev.field === field ? { field, direction: prev.direction === "asc" ? "desc" : "asc" } : { field, direction: "asc" }
+    );
+  }
+  const sortIndicator = (field: DemandSortField) =>
+    sort.field === field ? (sort.direction === "asc" ? " ▲" : " ▼") : "";
 
-  // Pagination calculations
-  const totalPages = Math.ceil(filteredDemands.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedDemands = filteredDemands.slice(startIndex, endIndex);
-
-  // Reset to page 1 when filters change
-  React.useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, statusFilter, typeFilter]);
+  // Refetches every demand list on screen (the rest are refetched when next shown)
+  function reloadDemands() {
+    invalidateDemandLists();
+  }
 
   const getStatusBadge = (status: Demand["status"]) => {
     const map: Record<Demand["status"], string> = {
       Draft: "bg-gray-100 text-gray-800",
       Submitted: "bg-blue-100 text-blue-800",
       "Under Review": "bg-yellow-100 text-yellow-800",
+      "Info Requested": "bg-orange-100 text-orange-800",
       Approved: "bg-green-100 text-green-800",
       Rejected: "bg-red-100 text-red-800",
       Completed: "bg-green-100 text-green-800",
@@ -419,9 +371,26 @@ const handleFormChange = (field: string, value: string) => {
       name: f.name,
       size: f.size,
       type: f.type,
+      file: f,
     }));
     setFormData((p) => ({ ...p, attachments: [...p.attachments, ...newFiles] }));
   };
+  // Uploads the files picked in the form; the demand is kept even if some fail
+  async function uploadFormAttachments(demandId: string): Promise<string[]> {
+    const failed: string[] = [];
+    for (const attachment of formData.attachments) {
+      try {
+        await repository.addAttachment(demandId, attachment.file, currentUserName);
+      } catch (error) {
+        console.warn(`Upload of ${attachment.name} failed:`, error);
+        failed.push(`${attachment.name}: ${describeError(error)}`);
+      }
+    }
+    return failed;
+  }
+  function attachmentWarning(failed: string[]): string {
+    return failed.length ? `\n\nThese attachments were not uploaded:\n${failed.join("\n")}` : "";
+  }
   function resetFormAndGoBack() {
     setFormData({
       title: "",
@@ -447,12 +416,12 @@ const handleFormChange = (field: string, value: string) => {
   /** Save as draft — stays in Intake */
   async function handleSaveDraft() {
     try {
-      const draft = await createDemand({
+      const draft = await repository.createDemand({
         title: formData.title || "(Untitled)",
         type: (formData.type as Demand["type"]) || "Strategic",
         priority: (formData.priority as Demand["priority"]) || "LOW",
-        status: "Draft",
-        current_stage: "Intake",
+        status: workflow.initialStatus,
+        current_stage: workflow.initialStage,
         expected_delivery: formData.expectedCompletionDate || undefined,
         expected_start_date: formData.expectedStartDate || undefined,
         business_justification: formData.businessJustification || undefined,
@@ -467,20 +436,22 @@ const handleFormChange = (field: string, value: string) => {
         // replace currentUserName with safeUserName
         //requestor: currentUserName,
         requestor: safeUserName,
-        department: "Information Technology",
+        requestor_id: rbac.id,
+        department: rbac.department ?? "Information Technology",
         progress: 0,
       });
-      setDemands((prev) => [draft, ...prev]);
-      await reloadDemands();
-      alert(`Draft saved: ${draft.id}`);
+      const failedUploads = await uploadFormAttachments(draft.id);
+      setCachedDemand({ data: draft });
+      reloadDemands();
+      alert(`Draft saved: ${draft.id}${attachmentWarning(failedUploads)}`);
       resetFormAndGoBack();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
+      const message = describeError(error);
       alert(`Save failed: ${message}`);
     }
   }
 
-  /** Submit — move directly to Screening (BU Head), set Under Review */
+  /** Submit — the workflow's submit move (by default to Screening, for the BU Head) */
   async function handleSubmitDemand() {
     // Validate entire demand before submission
     const validation = validateDemand({
@@ -495,179 +466,404 @@ const handleFormChange = (field: string, value: string) => {
       return;
     }
     
+    const fields: Partial<Demand> = {
+      title: sanitizeInput(formData.title),
+      type: (formData.type as Demand["type"]) || "Strategic",
+      priority: (formData.priority as Demand["priority"]) || "MEDIUM",
+      expected_delivery: formData.expectedCompletionDate || undefined,
+      expected_start_date: formData.expectedStartDate || undefined,
+      business_justification: sanitizeInput(formData.businessJustification || '') || undefined,
+      expected_benefits: sanitizeInput(formData.expectedBenefits || '') || undefined,
+      risk_assessment: sanitizeInput(formData.riskAssessment || '') || undefined,
+      success_criteria: sanitizeInput(formData.successCriteria || '') || undefined,
+      estimated_cost: formData.estimatedCost !== "" ? Number(formData.estimatedCost) : undefined,
+      budget_source: formData.budgetSource || undefined,
+      cost_category: formData.costCategory || undefined,
+      roi: formData.roi !== "" ? Number(formData.roi) : undefined,
+      description: sanitizeInput(formData.description),
+      requestor: currentUserName,
+      requestor_id: rbac.id,
+      department: rbac.department ?? "Information Technology",
+    };
+    const plan = planTransition(workflow, { ...fields, status: workflow.initialStatus, current_stage: workflow.initialStage }, "submit");
+    if (!plan) {
+      alert(`The "${workflow.name}" workflow has no submit step from ${workflow.initialStage}.`);
+      return;
+    }
+    if (plan.unmet.length) {
+      alert(`Cannot submit yet:\n${plan.unmet.join("\n")}`);
+      return;
+    }
+
     try {
-      const created = await createDemand({
-        title: sanitizeInput(formData.title),
-        type: (formData.type as Demand["type"]) || "Strategic",
-        priority: (formData.priority as Demand["priority"]) || "MEDIUM",
-        status: "Under Review",
-        current_stage: "Screening", // first approver is BU Head
-        expected_delivery: formData.expectedCompletionDate || undefined,
-        expected_start_date: formData.expectedStartDate || undefined,
-        business_justification: sanitizeInput(formData.businessJustification || '') || undefined,
-        expected_benefits: sanitizeInput(formData.expectedBenefits || '') || undefined,
-        risk_assessment: sanitizeInput(formData.riskAssessment || '') || undefined,
-        success_criteria: sanitizeInput(formData.successCriteria || '') || undefined,
-        estimated_cost: formData.estimatedCost !== "" ? Number(formData.estimatedCost) : undefined,
-        budget_source: formData.budgetSource || undefined,
-        cost_category: formData.costCategory || undefined,
-        roi: formData.roi !== "" ? Number(formData.roi) : undefined,
-        description: sanitizeInput(formData.description),
-        requestor: currentUserName,
-        department: "Information Technology",
-        progress: 0,
-      });
-      setDemands((prev) => [created, ...prev]);
-      await reloadDemands();
-      alert(`Demand ${created.id} submitted successfully!`);
+      const created = await repository.createDemand({ ...fields, ...plan.patch }, { actor });
+      const failedUploads = await uploadFormAttachments(created.id);
+      setCachedDemand({ data: created });
+      reloadDemands();
+      alert(`Demand ${created.id} submitted successfully!${attachmentWarning(failedUploads)}`);
       resetFormAndGoBack();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
+      const message = describeError(error);
       alert(`Submit failed: ${message}`);
     }
   }
 
   async function handleEdit(d: Demand) {
+    if (!rbac.can("edit", d)) {
+      alert(`You cannot edit ${d.id}.`);
+      return;
+    }
     const description = prompt("New description:", d.description || "");
     if (description == null) return;
     try {
-      const updated = await updateDemand(d.id, { description, last_modified_by: currentUserName });
-      setDemands((rows) => rows.map((r) => (r.id === d.id ? updated : r)));
+      setCachedDemand(await repository.updateDemand(d.id, { description, last_modified_by: currentUserName }));
+      reloadDemands();
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
+      const message = describeError(error);
       alert(`Update failed: ${message}`);
     }
   }
-  async function handleDelete(d: Demand) {
+  // Moves a draft to the trash; Admin/ITPMO can restore it from there. Requestors
+  // delete their own drafts, Admins any (rbac/policy.ts).
+  async function handleDelete(d: Demand, { confirmed = false } = {}) {
+    if (!rbac.can("delete", d)) {
+      alert(`You cannot delete ${d.id}.`);
+      return;
+    }
     if (d.status !== "Draft") {
       alert("Only drafts can be deleted.");
       return;
     }
-    if (!confirm(`Delete ${d.id}?`)) return;
-    const snapshot = demands;
+    if (!confirmed && !confirm(`Move ${d.id} to the trash?`)) return;
+    const restore = removeCachedDemand(d.id);
     try {
-      setDemands((rows) => rows.filter((r) => r.id !== d.id));
-      await deleteDemand(d.id);
-      
-      // Small delay to ensure database transaction is committed
-      await new Promise(resolve => setTimeout(resolve, APP_CONFIG.DELETE_CONFIRMATION_DELAY));
-      await reloadDemands();
-      
-      console.log(`✅ Successfully deleted ${d.id} from database and refreshed UI`);
+      setCachedDemand(await repository.deleteDemand(d.id, currentUserName));
+      reloadDemands();
     } catch (error) {
-      setDemands(snapshot);
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('DELETE failed, checking alternatives:', error);
-      
-      // Offer alternative approaches
-      const useAlternative = confirm(`Physical delete failed: ${message}\n\nWould you like to try soft delete instead? (This will mark the demand as deleted but keep the record)`);
-      
-      if (useAlternative) {
-        try {
-          console.log('Attempting soft delete...');
-          await softDeleteDemand(d.id);
-          await reloadDemands();
-          alert(`Soft delete successful for ${d.id}. The demand has been marked as deleted.`);
-        } catch (softError) {
-          console.error('Soft delete also failed:', softError);
-          
-          // Show detailed error information
-          console.log('🔍 Delete failure analysis:');
-          console.log('Hard delete error:', message);
-          console.log('Soft delete error:', softError);
-          
-          // Immediate UI fallback without asking - since DB operations are clearly not working
-          setDemands(prev => markAsDeletedInUI(prev, d.id));
-          alert(`❌ Database delete operations are not working.\n\n✅ ${d.id} has been removed from the display.\n\n⚠️  Note: The record still exists in the database.\n\nTo fix permanently, your system admin needs to:\n1. Enable ORDS DELETE operations\n2. Check database constraints\n3. Review table permissions`);
-        }
-      } else {
-        alert(`Delete failed: ${message}\n\nPlease contact your system administrator for assistance.`);
+      restore();
+      const message = describeError(error);
+      if (error instanceof NotFoundError) {
+        reloadDemands();
+        alert(message);
+        return;
+      }
+      if (error instanceof OrdsError && error.retryable) {
+        if (confirm(`Delete failed: ${message}\n\nTry again?`)) await handleDelete(d, { confirmed: true });
+        return;
       }
+      alert(`Delete failed: ${message}`);
     }
   }
 
-  const openDemandModal = async (d: Demand) => {
-    setSelectedDemand(d);
+  // Open to whoever the access policy lets see it, and to whoever signs it off for
+  // someone else or because it escalated to them
+  const openDemandModal = (d: Demand) => {
+    if (!rbac.can("view", d) && !signsOff(d)) {
+      alert(`You cannot open ${d.id}.`);
+      return;
+    }
+    setSelectedRow(d);
+    setConflict(null);
+    setReturnDraft(null);
     setDetailTab("details");
     setShowModal(true);
+  };
+
+  const closeDemandModal = () => {
+    setConflict(null);
+    setShowModal(false);
+  };
+
+  // Admins only; the switch is refused when the access log cannot record it
+  async function switchViewAs(role: Role | null) {
     try {
-      const [c, a, ap] = await Promise.all([fetchComments(d.id), fetchAudit(d.id), fetchApprovals(d.id)]);
-      setComments(c);
-      setAudit(a);
-      setApprovals(ap);
+      await rbac.viewAs(role);
     } catch (error) {
-      console.warn('Failed to fetch demand details:', error);
+      alert(`Could not switch the view: ${describeError(error)}`);
     }
-  };
+  }
 
   // --- sequential approve / reject from modal ---
-  const userCanActOnSelected = selectedDemand
-    ? requiredRoleForStage(selectedDemand.current_stage || selectedDemand.currentStage) === currentRole &&
-      (selectedDemand.status === "Submitted" || selectedDemand.status === "Under Review")
-    : false;
+  // The user's role that signs off on `d`: its stage's approver, where the access policy
+  // lets the user approve it (a BU Head only their own BU's), or the role it escalated to
+  const reviewRoleFor = (d: Demand) =>
+    roles.find((r) => (canReview(workflow, d, r) && rbac.can("approve", d)) || isEscalatedTo(workflow, d, r));
+  // The delegation the user signs off under, when the demand is not theirs to review
+  const delegationOf = (d: Demand) =>
+    reviewRoleFor(d) ? undefined : delegationFor(workflow, delegations, d, rbac.id);
+  const signsOff = (d: Demand) => reviewRoleFor(d) !== undefined || delegationOf(d) !== undefined;
+  const canActOn = (d: Demand) => !viewOnly && signsOff(d);
+  // Who a sign-off on `d` is made as: the user, or the user on behalf of the approver
+  function actorFor(d: Demand): WorkflowActor | undefined {
+    const delegation = delegationOf(d);
+    if (delegation && !viewOnly) {
+      return { name: safeUserName, id: rbac.id, role: delegation.role, onBehalfOf: delegation.delegator, onBehalfOfId: delegation.delegatorId };
+    }
+    return actingAs(reviewRoleFor(d));
+  }
+  // actorFor, telling the user why when there is nobody they can sign off as
+  function signerFor(d: Demand): WorkflowActor | undefined {
+    const by = actorFor(d);
+    if (!by) {
+      alert(
+        viewOnly
+          ? `You are viewing as ${rbac.viewingAs}; nothing can be changed.`
+          : roles.some((r) => canReview(workflow, d, r))
+          ? `You cannot sign off ${d.id}: it is outside what your roles cover (e.g. another department).`
+          : `None of your roles signs off ${d.id} at ${d.current_stage ?? workflow.initialStage}.`
+      );
+    }
+    return by;
+  }
+  const userCanActOnSelected = selectedDemand ? canActOn(selectedDemand) : false;
+  // Stages the selected demand goes through, picked from its type, cost, priority and department
+  const selectedRoute = selectedDemand ? selectRoute(workflow, selectedDemand) : null;
+  const selectedReturnTargets = selectedDemand ? returnTargets(workflow, selectedDemand) : [];
+  // The reviewer's questions, for a demand waiting on its requestor
+  const lastReturn = [...audit].reverse().find((a) => a.action.startsWith("Returned"));
+  // Where the board stands, at a stage where several approvers vote
+  const selectedStage = selectedDemand ? stageFor(workflow, selectedDemand.current_stage) : undefined;
+  const selectedQuorum = selectedStage?.quorum ?? null;
+  const selectedVotes = selectedStage && selectedQuorum ? currentVotes(approvals, selectedStage.key, stageEnteredAt(history, selectedStage.key)) : NO_APPROVALS;
+  const selectedTally = selectedQuorum ? tallyQuorum(selectedQuorum, selectedVotes) : null;
+
+  // A save was refused with 412: load the latest version and let the user choose
+  async function showConflict(seen: Demand, attempted: Partial<Demand>, action: "approve" | "reject" | "return") {
+    try {
+      const latest = await repository.getDemand(seen.id);
+      setConflict({ latest, changes: diffFields(seen, latest.data), attempted, action });
+    } catch (error) {
+      alert(`Could not load the latest version: ${describeError(error)}`);
+    }
+  }
 
-  async function approveSelected() {
-    if (!selectedDemand) return;
-    
-    console.log('=== APPROVAL PROCESS STARTING ===');
-    console.log('Selected demand:', selectedDemand);
-    console.log('Current user role:', currentRole);
-    
-    const current = selectedDemand.current_stage || selectedDemand.currentStage || "Intake";
-    const i = stageIndex(current);
-    const isLastApprover = i >= STAGE_FLOW.findIndex((s) => s.stage === "Authorization"); // DBR is last approver
-    const nextStage = nextStageFrom(current);
-
-    console.log('Approval logic:', {
-      currentStage: current,
-      stageIndex: i,
-      isLastApprover,
-      nextStage,
-      requiredRole: requiredRoleForStage(current)
-    });
+  function reloadFromConflict() {
+    if (!conflict) return;
+    setCachedDemand(conflict.latest);
+    setConflict(null);
+    reloadDemands();
+  }
+
+  async function retryFromConflict() {
+    if (!conflict) return;
+    const { latest, action } = conflict;
+    reloadFromConflict();
+    if (action === "approve") await approveSelected(latest.data, latest.etag);
+    else if (action === "return") await returnSelected(latest.data, latest.etag);
+    else await rejectSelected(latest.data, latest.etag);
+  }
+
+  // Records the user's vote at a stage where a board decides; returns where the board
+  // now stands, or null when the vote was not recorded
+  async function castVote(target: Demand, status: "Approved" | "Rejected"): Promise<QuorumDecision | null> {
+    const stage = stageFor(workflow, target.current_stage);
+    if (!stage?.quorum) return null;
+    const voter = signerFor(target);
+    if (!voter) return null;
+    const member = (voter.onBehalfOf ? voter.onBehalfOfId : voter.id) ?? "";
+    if (!canVote(stage.quorum, member)) {
+      alert(`${voter.onBehalfOf ?? voter.name} does not vote at ${stage.key}.`);
+      return null;
+    }
+    try {
+      const [approvalRows, historyRows] = await Promise.all([repository.listApprovals(target.id), repository.listTransitions(target.id)]);
+      const since = stageEnteredAt(historyRows, stage.key);
+      let votes = currentVotes(approvalRows, stage.key, since);
+      // Pressing the same button twice is one vote
+      if (votes.find((v) => voterOf(v) === member)?.status !== status) {
+        const vote = await repository.addApproval(target.id, {
+          stage: stage.key,
+          role: voter.role,
+          approver: voter.name,
+          approverId: voter.id ?? null,
+          onBehalfOf: voter.onBehalfOf ?? null,
+          onBehalfOfId: voter.onBehalfOfId ?? null,
+          status,
+        });
+        queryCache.set<DemandApproval[]>(demandKeys.approvals(target.id), (prev = []) => [...prev, vote]);
+        votes = currentVotes([...approvalRows, vote], stage.key, since);
+      }
+      const tally = tallyQuorum(stage.quorum, votes);
+      if (tally.decision === "pending") {
+        alert(
+          `Vote recorded. ${describeQuorum(stage.quorum, stage.approver)}: ` +
+            `${tally.approvals.length} approved, ${tally.rejections.length} rejected so far.`
+        );
+      }
+      return tally.decision;
+    } catch (error) {
+      alert(`Vote failed: ${describeError(error)}`);
+      return null;
+    }
+  }
 
-    const patch =
-      isLastApprover
-        ? { status: "Approved" as const, current_stage: nextStage }
-        : { status: "Under Review" as const, current_stage: nextStage };
+  // `voted`: the board has already decided, so the move is made without another vote
+  async function approveSelected(target = selectedDemand, etag = selectedEtag, voted = false) {
+    if (!target) return;
+    if (!voted && stageFor(workflow, target.current_stage)?.quorum) {
+      const decision = await castVote(target, "Approved");
+      if (decision === "rejected") await rejectSelected(target, etag, true);
+      if (decision !== "approved") return;
+    }
 
-    console.log('Patch to apply:', patch);
+    const plan = planTransition(workflow, target, "approve");
+    if (!plan) {
+      alert(`${target.id} has no approval step at ${target.current_stage ?? workflow.initialStage}.`);
+      return;
+    }
+    if (plan.unmet.length) {
+      alert(`Cannot approve yet:\n${plan.unmet.join("\n")}`);
+      return;
+    }
+    const { patch } = plan;
+    const approvedNow = patch.status === "Approved" && target.status !== "Approved";
+    const by = signerFor(target);
+    if (!by) return;
 
+    // Show the new stage straight away; rolled back if the server refuses it
+    const rollback = patchCachedDemand(target.id, patch);
     try {
-      console.log('Calling updateDemand with ID:', selectedDemand.id);
-      const updated = await updateDemand(selectedDemand.id, patch);
-      console.log('Update successful:', updated);
-      const merged = { ...selectedDemand, ...updated };
-      //setDemands((rows) => rows.map((r) => (r.id === selectedDemand.id ? updated : r)));
-      setDemands((rows) => rows.map((r) => (r.id === selectedDemand.id ? merged : r)));
-      //setSelectedDemand(updated);
-      setSelectedDemand(merged);
-      alert(isLastApprover ? "Approved. Demand is now Approved." : `Approved. Moved to ${nextStage}.`);
+      const saved = await repository.updateDemand(target.id, patch, { ifMatch: etag, actor: by });
+      setCachedDemand(saved);
+      invalidateTransitions(target.id);
+      reloadDemands();
+      const warning = await recordAudit(target.id, `Moved to ${patch.current_stage}`, by.onBehalfOf ? `Approved by ${describeActor(by)}` : null);
+      alert((approvedNow ? "Approved. Demand is now Approved." : `Approved. Moved to ${patch.current_stage}.`) + warning);
     } catch (error) {
-      console.error('=== APPROVAL FAILED ===');
-      console.error('Full error object:', error);
-      console.error('Error type:', typeof error);
-      console.error('Error constructor:', error?.constructor?.name);
-      
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      const fullMessage = `Approval failed with detailed info:\n\nDemand ID: ${selectedDemand.id}\nCurrent Stage: ${current}\nNext Stage: ${nextStage}\nUser Role: ${currentRole}\nPatch: ${JSON.stringify(patch)}\n\nError: ${message}`;
-      
-      alert(fullMessage);
+      rollback();
+      console.error('=== APPROVAL FAILED ===', {
+        error,
+        demandId: target.id,
+        currentStage: target.current_stage,
+        nextStage: patch.current_stage,
+        role: by.role,
+        patch,
+      });
+
+      const message = describeError(error);
+      if (error instanceof NotFoundError) {
+        removeCachedDemand(target.id);
+        closeDemandModal();
+        alert(`Approval failed: ${message}`);
+      } else if (error instanceof PreconditionFailedError) {
+        await showConflict(target, patch, "approve");
+      } else if (error instanceof ConflictError) {
+        reloadDemands();
+        alert(`Approval failed: ${message}`);
+      } else if (error instanceof OrdsError && error.retryable) {
+        if (confirm(`Approval failed: ${message}\n\nTry again?`)) await approveSelected(target, etag, voted);
+      } else {
+        alert(`Approval failed: ${message}`);
+      }
     }
   }
-  async function rejectSelected() {
-    if (!selectedDemand) return;
+  async function rejectSelected(target = selectedDemand, etag = selectedEtag, voted = false) {
+    if (!target) return;
+    if (!voted && stageFor(workflow, target.current_stage)?.quorum) {
+      const decision = await castVote(target, "Rejected");
+      if (decision === "approved") await approveSelected(target, etag, true);
+      if (decision !== "rejected") return;
+    }
+    const plan = planTransition(workflow, target, "reject");
+    if (!plan) {
+      alert(`${target.id} cannot be rejected at ${target.current_stage ?? workflow.initialStage}.`);
+      return;
+    }
+    const { patch } = plan;
+    const by = signerFor(target);
+    if (!by) return;
+    const rollback = patchCachedDemand(target.id, patch);
     try {
-      const updated = await updateDemand(selectedDemand.id, { status: "Rejected" as const });
-      setDemands((rows) => rows.map((r) => (r.id === selectedDemand.id ? updated : r)));
-      setSelectedDemand(updated);
-      alert("Demand rejected.");
+      setCachedDemand(await repository.updateDemand(target.id, patch, { ifMatch: etag, actor: by }));
+      invalidateTransitions(target.id);
+      reloadDemands();
+      const stage = target.current_stage ?? workflow.initialStage;
+      const warning = await recordAudit(target.id, `Rejected at ${stage}`, by.onBehalfOf ? `Rejected by ${describeActor(by)}` : null);
+      alert(`Demand rejected.${warning}`);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
+      rollback();
+      if (error instanceof PreconditionFailedError) {
+        await showConflict(target, patch, "reject");
+        return;
+      }
+      const message = describeError(error);
       alert(`Reject failed: ${message}`);
     }
   }
 
+  // Sends the demand back to an earlier stage with the reviewer's questions
+  async function returnSelected(target = selectedDemand, etag = selectedEtag, request = returnDraft) {
+    if (!target || !request) return;
+    const reason = request.reason.trim();
+    if (!reason) {
+      alert("Say what information is needed.");
+      return;
+    }
+    const plan = planTransition(workflow, target, "return", { to: request.to });
+    if (!plan) {
+      alert(`${target.id} cannot be returned to ${request.to}.`);
+      return;
+    }
+    const { patch } = plan;
+    const by = signerFor(target);
+    if (!by) return;
+    const rollback = patchCachedDemand(target.id, patch);
+    try {
+      setCachedDemand(await repository.updateDemand(target.id, patch, { ifMatch: etag, actor: by, comment: reason }));
+      invalidateTransitions(target.id);
+      reloadDemands();
+      setReturnDraft(null);
+      const role = by.onBehalfOf ? `${by.role}, ${describeActor(by)}` : by.role;
+      const warning = await recordAudit(target.id, `Returned to ${plan.stage.key} for information (${role})`, reason);
+      alert(`Returned to ${plan.stage.key}. The requestor can answer and resubmit.${warning}`);
+    } catch (error) {
+      rollback();
+      if (error instanceof PreconditionFailedError) {
+        await showConflict(target, patch, "return");
+        return;
+      }
+      const message = describeError(error);
+      alert(`Return failed: ${message}`);
+    }
+  }
+
+  // The requestor's answer to "Return for info": back into review
+  async function handleResubmit(d: Demand) {
+    const plan = planTransition(workflow, d, "resubmit");
+    if (!plan) return;
+    if (!rbac.can("edit", d)) {
+      alert(`Only the requestor can resubmit ${d.id}.`);
+      return;
+    }
+    if (plan.unmet.length) {
+      alert(`Cannot resubmit yet:\n${plan.unmet.join("\n")}`);
+      return;
+    }
+    const answer = prompt(`Resubmit ${d.id} for review at ${plan.stage.key}? Add a note for the reviewer (optional):`, "");
+    if (answer == null) return;
+    try {
+      setCachedDemand(await repository.updateDemand(d.id, { ...plan.patch, last_modified_by: currentUserName }, { actor, comment: answer.trim() || null }));
+      invalidateTransitions(d.id);
+      reloadDemands();
+      const warning = await recordAudit(d.id, `Resubmitted to ${plan.stage.key}`, answer.trim() || null);
+      alert(`Resubmitted. ${d.id} is back in review at ${plan.stage.key}.${warning}`);
+    } catch (error) {
+      const message = describeError(error);
+      alert(`Resubmit failed: ${message}`);
+    }
+  }
+
+  // Workflow moves go to the audit trail; a failed write is reported but does not undo the move
+  async function recordAudit(demandId: string, action: string, note: string | null): Promise<string> {
+    try {
+      const entry = await repository.addAudit(demandId, safeUserName, action, note);
+      queryCache.set<DemandAudit[]>(demandKeys.audit(demandId), (prev = []) => [...prev, entry]);
+      return "";
+    } catch (error) {
+      return `\n\nThe audit entry was not saved: ${describeError(error)}`;
+    }
+  }
+
   const summary = {
     total: demands.length,
     pending: demands.filter((d) => d.status === "Submitted" || d.status === "Under Review").length,
@@ -709,17 +905,24 @@ const handleFormChange = (field: string, value: string) => {
 
                 {/*End*/}
               {/*<div className="text-sm text-gray-600">IT Operations</div>*/}
-              <select
-                value={currentRole}
-                onChange={(e) => setCurrentRole(e.target.value as Role)}
-                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
-                title="Current Role"
-              >
-                <option>Demand Requestor</option>
-                <option>BU Head</option>
-                <option>ITPMO</option>
-                <option>DBR</option>
-              </select>
+              <div className="text-sm text-gray-600" title="Roles from your sign-in">
+                {rbac.verifiedRoles.join(", ") || "No roles"}
+              </div>
+              {rbac.verifiedRoles.includes("Admin") && (
+                <select
+                  value={rbac.viewingAs ?? ""}
+                  onChange={(e) => switchViewAs((e.target.value || null) as Role | null)}
+                  className={`px-2 py-1 border rounded-md text-sm ${viewOnly ? "border-yellow-400 bg-yellow-50" : "border-gray-300"}`}
+                  title="See the app as another role would (read only; recorded in the access log)"
+                >
+                  <option value="">View as: myself</option>
+                  {VIEW_AS_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      View as: {r} (read only)
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
         </div>
@@ -729,19 +932,12 @@ const handleFormChange = (field: string, value: string) => {
       <div className="bg-white border-b">
         <div className="max-w-7xl mx-auto px-4">
           <nav className="flex space-x-8">
-            {[
-              { id: "dashboard", label: "Dashboard" },
-              { id: "my-demands", label: "My Demands" },
-              { id: "submit-demand", label: "Submit New Demand" },
-              { id: "approval-queue", label: "Approval Queue" },
-              { id: "portfolio", label: "Portfolio" },
-              { id: "reports", label: "Reports" },
-            ].map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                onClick={() => setActiveTab(tab.id)}
                 className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === (tab.id as typeof activeTab)
+                  activeTab === tab.id
                     ? "border-blue-500 text-blue-600"
                     : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
                 }`}
@@ -842,7 +1038,7 @@ const handleFormChange = (field: string, value: string) => {
               <div className="bg-white rounded-lg shadow-sm p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Demand Status Distribution</h3>
                 <div className="space-y-3">
-                  {['Submitted', 'Under Review', 'Approved', 'Draft'].map(status => {
+                  {['Submitted', 'Under Review', 'Info Requested', 'Approved', 'Draft'].map(status => {
                     const count = demands.filter(d => d.status === status).length;
                     const percentage = demands.length > 0 ? Math.round((count / demands.length) * 100) : 0;
                     return (
@@ -851,6 +1047,7 @@ const handleFormChange = (field: string, value: string) => {
                           <div className={`w-4 h-4 rounded mr-3 ${
                             status === 'Submitted' ? 'bg-blue-500' :
                             status === 'Under Review' ? 'bg-yellow-500' :
+                            status === 'Info Requested' ? 'bg-orange-500' :
                             status === 'Approved' ? 'bg-green-500' :
                             'bg-gray-500'
                           }`} />
@@ -999,9 +1196,7 @@ const handleFormChange = (field: string, value: string) => {
                 <select
                   value={statusFilter}
                   onChange={(e) =>
-                    setStatusFilter(
-                      e.target.value as "" | "Draft" | "Submitted" | "Under Review" | "Approved" | "Rejected" | "Completed"
-                    )
+                    setStatusFilter(e.target.value as "" | Demand["status"])
                   }
                   className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
@@ -1009,6 +1204,7 @@ const handleFormChange = (field: string, value: string) => {
                   <option value="Draft">Draft</option>
                   <option value="Submitted">Submitted</option>
                   <option value="Under Review">Under Review</option>
+                  <option value="Info Requested">Info Requested</option>
                   <option value="Approved">Approved</option>
                   <option value="Completed">Completed</option>
                 </select>
@@ -1065,19 +1261,35 @@ const handleFormChange = (field: string, value: string) => {
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">DEMAND #</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">TITLE</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button onClick={() => toggleSort("id")} className="uppercase tracking-wider hover:text-gray-700">
+                          DEMAND #{sortIndicator("id")}
+                        </button>
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button onClick={() => toggleSort("title")} className="uppercase tracking-wider hover:text-gray-700">
+                          TITLE{sortIndicator("title")}
+                        </button>
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">TYPE</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PRIORITY</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">STATUS</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CURRENT STAGE</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CREATED</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">EXPECTED DELIVERY</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button onClick={() => toggleSort("created_date")} className="uppercase tracking-wider hover:text-gray-700">
+                          CREATED{sortIndicator("created_date")}
+                        </button>
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <button onClick={() => toggleSort("expected_delivery")} className="uppercase tracking-wider hover:text-gray-700">
+                          EXPECTED DELIVERY{sortIndicator("expected_delivery")}
+                        </button>
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ACTIONS</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {paginatedDemands.map((demand) => (
+                    {demandPage.items.map((demand) => (
                       <tr key={demand.id} className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm font-semibold text-gray-900">{demand.id}</div>
@@ -1095,10 +1307,14 @@ const handleFormChange = (field: string, value: string) => {
                           <span className={getStatusBadge(demand.status)}>{demand.status}</span>
                         </td>
                         <td className="px-6 py-4">
-                          <div className="text-sm text-gray-900">{demand.current_stage ?? demand.currentStage}</div>
+                          <div className="text-sm text-gray-900">{demand.current_stage}</div>
+                          {workflow.reviewStatuses.includes(demand.status) && approverFor(workflow, demand.current_stage) && (
+                            <div className="text-xs text-gray-500">Waiting on {approverFor(workflow, demand.current_stage)}</div>
+                          )}
+                          <SlaBadge sla={slaStatus(workflow, demand)} />
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{demand.created_date ?? demand.createdDate}</td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{demand.expected_delivery ?? demand.expectedDelivery}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{demand.created_date}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{demand.expected_delivery}</td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex items-center space-x-2">
                             <button
@@ -1108,7 +1324,7 @@ const handleFormChange = (field: string, value: string) => {
                             >
                               <Eye className="w-4 h-4" />
                             </button>
-                            {(demand.status === "Draft" || demand.status === "Submitted") && (
+                            <DemandAccess demand={demand} action="edit">
                               <button
                                 onClick={() => handleEdit(demand)}
                                 className="text-green-600 hover:text-green-900 p-1"
@@ -1116,8 +1332,17 @@ const handleFormChange = (field: string, value: string) => {
                               >
                                 <Edit className="w-4 h-4" />
                               </button>
+                            </DemandAccess>
+                            {findTransition(workflow, demand, "resubmit") && rbac.can("edit", demand) && (
+                              <button
+                                onClick={() => handleResubmit(demand)}
+                                className="text-orange-600 hover:text-orange-900 p-1"
+                                title="Answer and resubmit"
+                              >
+                                <Send className="w-4 h-4" />
+                              </button>
                             )}
-                            {demand.status === "Draft" && (
+                            <DemandAccess demand={demand} action="delete">
                               <button
                                 onClick={() => handleDelete(demand)}
                                 className="text-red-600 hover:text-red-900 p-1"
@@ -1125,7 +1350,7 @@ const handleFormChange = (field: string, value: string) => {
                               >
                                 <Trash2 className="w-4 h-4" />
                               </button>
-                            )}
+                            </DemandAccess>
                           </div>
                         </td>
                       </tr>
@@ -1137,14 +1362,20 @@ const handleFormChange = (field: string, value: string) => {
               <div className="bg-white px-6 py-3 border-t border-gray-200">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-500">
-                    Showing {Math.min(startIndex + 1, filteredDemands.length)}-{Math.min(endIndex, filteredDemands.length)} of {filteredDemands.length} demands
+                    {demandPage.loading
+                      ? "Loading…"
+                      : demandPage.error
+                      ? `Failed to load demands: ${describeError(demandPage.error)}`
+                      : demandPage.items.length === 0
+                      ? "No demands found"
+                      : `Showing ${startIndex + 1}-${startIndex + demandPage.items.length} demands`}
                   </div>
                   <div className="flex items-center space-x-2">
                     <button 
-                      onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                      disabled={currentPage === 1}
+                      onClick={() => demandPage.setPage(prev => Math.max(1, prev - 1))}
+                      disabled={demandPage.page === 1}
                       className={`px-3 py-1 border border-gray-300 rounded text-sm ${
-                        currentPage === 1 
+                        demandPage.page === 1 
                           ? 'bg-gray-100 text-gray-400 cursor-not-allowed' 
                           : 'hover:bg-gray-50 text-gray-700'
                       }`}
@@ -1152,13 +1383,13 @@ const handleFormChange = (field: string, value: string) => {
                       Previous
                     </button>
                     <span className="text-sm text-gray-600">
-                      Page {currentPage} of {totalPages}
+                      Page {demandPage.page}
                     </span>
                     <button 
-                      onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                      disabled={currentPage === totalPages}
+                      onClick={() => demandPage.setPage(prev => prev + 1)}
+                      disabled={!demandPage.hasMore}
                       className={`px-3 py-1 border border-gray-300 rounded text-sm ${
-                        currentPage === totalPages 
+                        !demandPage.hasMore 
                           ? 'bg-gray-100 text-gray-400 cursor-not-allowed' 
                           : 'hover:bg-gray-50 text-gray-700'
                       }`}
@@ -1508,7 +1739,7 @@ const handleFormChange = (field: string, value: string) => {
             <div className="bg-white rounded-lg shadow-sm overflow-hidden">
               <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
                 <h3 className="text-lg font-medium text-gray-900">Approval Queue</h3>
-                <div className="text-sm text-gray-600">Role: {currentRole}</div>
+                <div className="text-sm text-gray-600">Roles: {roles.join(", ") || "none"}</div>
               </div>
 
               <div className="overflow-x-auto">
@@ -1518,41 +1749,81 @@ const handleFormChange = (field: string, value: string) => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Demand #</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Title</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stage</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SLA</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {demands
-                      .filter((d) => d.status === "Under Review" || d.status === "Submitted")
-                      .filter((d) => requiredRoleForStage(d.current_stage ?? d.currentStage) === currentRole)
-                      .map((d) => (
-                        <tr key={d.id} className="hover:bg-gray-50">
-                          <td className="px-6 py-4 whitespace-nowrap font-semibold">{d.id}</td>
-                          <td className="px-6 py-4">{d.title}</td>
-                          <td className="px-6 py-4">{d.current_stage ?? d.currentStage}</td>
-                          <td className="px-6 py-4 whitespace-nowrap">{d.created_date ?? d.createdDate}</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
-                            <button
-                              onClick={() => openDemandModal(d)}
-                              className="text-blue-600 hover:text-blue-900 p-1"
-                              title="View"
-                            >
-                              <Eye className="w-4 h-4" />
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
+                    {approvalQueue.items.map((d) => (
+                      <tr key={d.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap font-semibold">{d.id}</td>
+                        <td className="px-6 py-4">
+                          {d.title}
+                          {delegationOf(d) && (
+                            <span className="ml-2 px-2 py-0.5 rounded text-xs bg-purple-100 text-purple-700">
+                              for {delegationOf(d)?.delegator}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">{d.current_stage}</td>
+                        <td className="px-6 py-4">
+                          <SlaBadge sla={slaStatus(workflow, d)} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">{d.created_date}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                          <button
+                            onClick={() => openDemandModal(d)}
+                            className="text-blue-600 hover:text-blue-900 p-1"
+                            title="View"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
               </div>
 
               <div className="bg-white px-6 py-3 border-t border-gray-200">
-                <div className="text-sm text-gray-500">
-                  Showing approvals for role: <span className="font-medium">{currentRole}</span>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-gray-500">
+                    {approvalQueue.loading
+                      ? "Loading..."
+                      : approvalQueue.error
+                      ? `Failed to load the queue: ${describeError(approvalQueue.error)}`
+                      : approvalQueue.items.length === 0
+                      ? <>No approvals for role(s): <span className="font-medium">{roles.join(", ")}</span></>
+                      : <>Showing {queueStartIndex + 1}-{queueStartIndex + approvalQueue.items.length} approval(s) for role(s): <span className="font-medium">{roles.join(", ")}</span>
+                          {delegatedToMe.length > 0 && <> and for {delegatedToMe.map((d) => `${d.delegator} (${d.role})`).join(", ")}</>}</>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => approvalQueue.setPage((prev) => Math.max(1, prev - 1))}
+                      disabled={approvalQueue.page === 1}
+                      className={`px-3 py-1 border border-gray-300 rounded text-sm ${
+                        approvalQueue.page === 1 ? "bg-gray-100 text-gray-400 cursor-not-allowed" : "hover:bg-gray-50 text-gray-700"
+                      }`}
+                    >
+                      Previous
+                    </button>
+                    <span className="text-sm text-gray-600">Page {approvalQueue.page}</span>
+                    <button
+                      onClick={() => approvalQueue.setPage((prev) => prev + 1)}
+                      disabled={!approvalQueue.hasMore}
+                      className={`px-3 py-1 border border-gray-300 rounded text-sm ${
+                        !approvalQueue.hasMore ? "bg-gray-100 text-gray-400 cursor-not-allowed" : "hover:bg-gray-50 text-gray-700"
+                      }`}
+                    >
+                      Next
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
+
+            <DelegationPanel userName={safeUserName} userId={rbac.id} roles={viewOnly ? [] : rbac.verifiedRoles} />
           </div>
         )}
 
@@ -1644,10 +1915,60 @@ const handleFormChange = (field: string, value: string) => {
                       <div className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50">
                         <div>
                           <div className="text-sm font-medium text-gray-900">SLA Performance</div>
-                          <div className="text-xs text-gray-500">Service level agreement tracking</div>
+                          <div className="text-xs text-gray-500">
+                            Business days at each review stage against its target (default {BUSINESS_RULES.DEFAULT_SLA_DAYS})
+                          </div>
                         </div>
-                        <button 
-                          onClick={() => alert('SLA Performance Report:\nAverage processing time: 3.2 days\nOn-time delivery: 87%\nEscalated demands: 5')}
+                        <button
+                          onClick={() => {
+                            const sla = summarizeSla(workflow, demands);
+                            if (sla.tracked === 0) {
+                              alert("SLA Performance Report:\nNo demand is waiting on an approver.");
+                              return;
+                            }
+                            const byStage = Object.entries(sla.breachedByStage).map(([stage, count]) => `  ${stage}: ${count}`);
+                            alert(
+                              [
+                                "SLA Performance Report:",
+                                `Waiting on an approver: ${sla.tracked}`,
+                                `Average time at the current stage: ${sla.averageElapsed?.toFixed(1)} business days`,
+                                `Within SLA: ${Math.round(((sla.onTrack + sla.dueSoon) / sla.tracked) * 100)}% (${sla.dueSoon} due within a day)`,
+                                `Overdue: ${sla.breached} (escalated: ${sla.escalated})`,
+                                ...byStage,
+                              ].join("\n")
+                            );
+                          }}
+                          className="text-blue-600 hover:text-blue-800 text-sm"
+                        >
+                          Generate
+                        </button>
+                      </div>
+                      <div className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50">
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">Cycle Time</div>
+                          <div className="text-xs text-gray-500">Business days at each stage and from submission to decision, from the stage history</div>
+                        </div>
+                        <button
+                          onClick={async () => {
+                            try {
+                              const report = cycleTimes(workflow, await repository.listTransitions(null));
+                              if (report.stages.length === 0) {
+                                alert("Cycle Time Report:\nNo demand has moved on from a stage yet.");
+                                return;
+                              }
+                              alert(
+                                [
+                                  "Cycle Time Report:",
+                                  report.averageDaysToDecision === null
+                                    ? "Submission to decision: no decisions yet"
+                                    : `Submission to decision: ${report.averageDaysToDecision.toFixed(1)} business days on average (${report.decided} demands)`,
+                                  ...report.stages.map((s) => `  ${s.stage}: ${s.averageDays.toFixed(1)} days (${s.demands} demands)`),
+                                ].join("\n")
+                              );
+                            } catch (error) {
+                              alert(`Could not load the stage history: ${describeError(error)}`);
+                            }
+                          }}
                           className="text-blue-600 hover:text-blue-800 text-sm"
                         >
                           Generate
@@ -1827,6 +2148,28 @@ const handleFormChange = (field: string, value: string) => {
             </div>
           </div>
         )}
+
+        {/* Trash (Admin/ITPMO) */}
+        {activeTab === "trash" && (
+          <RoleGate
+            roles={["Admin", "ITPMO"]}
+            showFallback
+            fallback={<div className="bg-white rounded-lg shadow-sm p-6 text-sm text-gray-600">Only Admin and ITPMO can view the trash.</div>}
+          >
+            <TrashView />
+          </RoleGate>
+        )}
+
+        {/* Connection Health (admin) */}
+        {activeTab === "connection-health" && (
+          <RequirePermission
+            permission="admin.system"
+            showFallback
+            fallback={<div className="bg-white rounded-lg shadow-sm p-6 text-sm text-gray-600">Only administrators can view connection health.</div>}
+          >
+            <ConnectionHealth />
+          </RequirePermission>
+        )}
       </div>
 
       {/* Demand Details Modal */}
@@ -1837,7 +2180,7 @@ const handleFormChange = (field: string, value: string) => {
               <h3 className="text-lg font-medium text-gray-900">
                 {selectedDemand.id} — {selectedDemand.title}
               </h3>
-              <button onClick={() => setShowModal(false)} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <button onClick={closeDemandModal} className="text-gray-500 hover:text-gray-700" aria-label="Close">
                 ✕
               </button>
             </div>
@@ -1888,11 +2231,11 @@ const handleFormChange = (field: string, value: string) => {
                       </div>
                       <div>
                         <div className="text-gray-500">Created</div>
-                        <div className="font-medium">{selectedDemand.created_date ?? selectedDemand.createdDate}</div>
+                        <div className="font-medium">{selectedDemand.created_date}</div>
                       </div>
                       <div>
                         <div className="text-gray-500">Expected Delivery</div>
-                        <div className="font-medium">{selectedDemand.expected_delivery ?? selectedDemand.expectedDelivery}</div>
+                        <div className="font-medium">{selectedDemand.expected_delivery}</div>
                       </div>
                     </div>
                     <div>
@@ -1904,16 +2247,21 @@ const handleFormChange = (field: string, value: string) => {
                   <div>
                     <div className="flex items-center justify-between mb-4">
                       <h4 className="text-sm font-medium text-gray-900">Workflow Progress</h4>
-                      <span className={getStatusBadge(selectedDemand.status)}>{selectedDemand.status}</span>
+                      <div className="flex items-center space-x-2">
+                        <SlaBadge sla={slaStatus(workflow, selectedDemand)} />
+                        <span className={getStatusBadge(selectedDemand.status)}>{selectedDemand.status}</span>
+                      </div>
+                    </div>
+                    <div className="-mt-2 mb-4 text-xs text-gray-500" title={selectedRoute?.routes.map((r) => r.description).join("\n")}>
+                      Route: <span className="font-medium text-gray-700">{selectedRoute && describeRoute(selectedRoute)}</span>
                     </div>
 
                     <div className="space-y-3">
-                      {STAGE_FLOW.map((s, idx) => {
-                        const current = stageIndex(selectedDemand.current_stage ?? selectedDemand.currentStage);
-                        const completed = idx < current;
-                        const isCurrent = idx === current;
+                      {buildWorkflow(workflow, selectedDemand, history).map((s, idx) => {
+                        const completed = s.completed;
+                        const isCurrent = !!s.current;
                         return (
-                          <div key={s.stage} className="flex items-start space-x-3">
+                          <div key={s.key} className={`flex items-start space-x-3 ${s.skipped ? "opacity-50" : ""}`}>
                             <div
                               className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
                                 completed
@@ -1926,10 +2274,26 @@ const handleFormChange = (field: string, value: string) => {
                               {completed ? <CheckCircle className="w-4 h-4" /> : isCurrent ? <Clock className="w-4 h-4" /> : idx + 1}
                             </div>
                             <div className="flex-1 min-w-0">
-                              <div className={`text-sm font-medium ${completed ? "text-green-800" : isCurrent ? "text-yellow-800" : "text-gray-500"}`}>
-                                {s.stage}
+                              <div
+                                className={`text-sm font-medium ${completed ? "text-green-800" : isCurrent ? "text-yellow-800" : "text-gray-500"}`}
+                                title={s.description}
+                              >
+                                <span className={s.skipped ? "line-through" : ""}>{s.name}</span>
                               </div>
-                              {s.role && <div className="text-xs text-gray-500">Approver: {s.role}</div>}
+                              {s.skipped ? (
+                                <div className="text-xs text-gray-500">Skipped on this route</div>
+                              ) : (
+                                s.approver && <div className="text-xs text-gray-500">Approver: {s.approver}</div>
+                              )}
+                              {s.completedAt ? (
+                                <div className="text-xs text-gray-500">
+                                  {s.enteredAt && `${new Date(s.enteredAt).toLocaleDateString()} – `}
+                                  {new Date(s.completedAt).toLocaleDateString()}
+                                  {s.completedBy && ` • moved on by ${s.completedBy}`}
+                                </div>
+                              ) : (
+                                s.enteredAt && <div className="text-xs text-gray-500">Since {new Date(s.enteredAt).toLocaleDateString()}</div>
+                              )}
                             </div>
                           </div>
                         );
@@ -1976,11 +2340,11 @@ const handleFormChange = (field: string, value: string) => {
                       onClick={async () => {
                         if (!newComment.trim() || !selectedDemand) return;
                         try {
-                          const c = await postComment(selectedDemand.id, currentUserName, newComment.trim());
-                          setComments((prev) => [c, ...prev]);
+                          const c = await repository.addComment(selectedDemand.id, currentUserName, newComment.trim());
+                          queryCache.set<DemandComment[]>(demandKeys.comments(selectedDemand.id), (prev = []) => [c, ...prev]);
                           setNewComment("");
                         } catch (error) {
-                          const message = error instanceof Error ? error.message : "Failed to add comment.";
+                          const message = describeError(error);
                           alert(message);
                         }
                       }}
@@ -2020,45 +2384,137 @@ const handleFormChange = (field: string, value: string) => {
                   <div className="flex items-center justify-between">
                     <div className="text-sm text-gray-600">
                       Sequential approvals • Current stage:{" "}
-                      <span className="font-medium">{selectedDemand.current_stage ?? selectedDemand.currentStage}</span>
+                      <span className="font-medium">{selectedDemand.current_stage}</span>
+                      {userCanActOnSelected && delegationOf(selectedDemand) && (
+                        <> • acting for <span className="font-medium">{delegationOf(selectedDemand)?.delegator}</span></>
+                      )}
                     </div>
-                    {(selectedDemand.current_stage || selectedDemand.currentStage) &&
+                    {selectedDemand.current_stage &&
                       userCanActOnSelected && (
                         <div className="space-x-2">
-                          <button onClick={approveSelected} className="px-3 py-1 text-xs rounded bg-green-600 text-white hover:bg-green-700">
-                            Approve
+                          <button onClick={() => approveSelected()} className="px-3 py-1 text-xs rounded bg-green-600 text-white hover:bg-green-700">
+                            {selectedQuorum ? "Vote approve" : "Approve"}
                           </button>
-                          <button onClick={rejectSelected} className="px-3 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700">
-                            Reject
+                          <button onClick={() => rejectSelected()} className="px-3 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700">
+                            {selectedQuorum ? "Vote reject" : "Reject"}
                           </button>
+                          {selectedReturnTargets.length > 0 && (
+                            <button
+                              onClick={() =>
+                                setReturnDraft((d) => d ?? { to: selectedReturnTargets[selectedReturnTargets.length - 1].key, reason: "" })
+                              }
+                              className="px-3 py-1 text-xs rounded bg-orange-500 text-white hover:bg-orange-600"
+                            >
+                              Return for info
+                            </button>
+                          )}
                         </div>
                       )}
                   </div>
 
-                  {/* Optional parallel approvers list (only shown if backing API exists) */}
+                  {returnDraft && userCanActOnSelected && (
+                    <div className="border border-orange-200 bg-orange-50 rounded-md p-3 space-y-2">
+                      <div className="flex items-center space-x-2 text-sm">
+                        <label htmlFor="return-to" className="text-gray-700">Send back to</label>
+                        <select
+                          id="return-to"
+                          value={returnDraft.to}
+                          onChange={(e) => setReturnDraft({ ...returnDraft, to: e.target.value })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          {selectedReturnTargets.map((s) => (
+                            <option key={s.key} value={s.key}>
+                              {s.key}
+                              {s.approver ? ` (${s.approver})` : ""}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <textarea
+                        value={returnDraft.reason}
+                        onChange={(e) => setReturnDraft({ ...returnDraft, reason: e.target.value })}
+                        placeholder="What information is needed? (required)"
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button onClick={() => setReturnDraft(null)} className="px-3 py-1 text-xs rounded border border-gray-300">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => returnSelected()}
+                          disabled={!returnDraft.reason.trim()}
+                          className="px-3 py-1 text-xs rounded bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50"
+                        >
+                          Send back
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {selectedDemand.status === "Info Requested" && (
+                    <div className="border border-orange-200 bg-orange-50 rounded-md p-3 flex items-start justify-between text-sm">
+                      <div>
+                        <div className="font-medium text-orange-900">Returned for more information</div>
+                        {lastReturn?.note && <div className="text-orange-800 whitespace-pre-wrap">{lastReturn.note}</div>}
+                        {lastReturn && <div className="text-xs text-orange-700">{lastReturn.who} • {lastReturn.at}</div>}
+                      </div>
+                      {findTransition(workflow, selectedDemand, "resubmit") && rbac.can("edit", selectedDemand) && (
+                        <button
+                          onClick={() => handleResubmit(selectedDemand)}
+                          className="ml-3 px-3 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                        >
+                          Resubmit
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {selectedStage && selectedQuorum && selectedTally && (
+                    <div className="border border-blue-100 bg-blue-50 rounded-md p-3 text-sm">
+                      <div className="font-medium text-blue-900">
+                        Board vote at {selectedStage.key}: {describeQuorum(selectedQuorum, selectedStage.approver)}
+                      </div>
+                      <div className="text-blue-800">
+                        {selectedTally.approvals.length} approved • {selectedTally.rejections.length} rejected
+                        {selectedTally.waitingOn.length > 0 && ` • waiting on ${selectedTally.waitingOn.join(", ")}`}
+                        {selectedTally.casting && " • decided by the chair's casting vote"}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Every decision recorded for the demand, votes included */}
                   <div className="border rounded-md divide-y">
-                    {approvals.map((ap) => (
-                      <div key={ap.id} className="p-3 flex items-center justify-between">
-                        <div className="text-sm">
-                          <div className="font-medium">{ap.approver}</div>
-                          <div className="text-gray-500 text-xs">
-                            Role: {ap.role} {ap.decidedAt ? `• ${ap.decidedAt}` : ""}
+                    {approvals.map((ap) => {
+                      // A vote at this stage from before the demand last came back to it
+                      const earlierRound = !!selectedQuorum && ap.stage === selectedStage?.key && !selectedVotes.includes(ap);
+                      return (
+                        <div key={ap.id} className={`p-3 flex items-center justify-between ${earlierRound ? "opacity-50" : ""}`}>
+                          <div className="text-sm">
+                            <div className="font-medium">
+                            {ap.approver}
+                            {ap.onBehalfOf && <span className="font-normal text-gray-500"> on behalf of {ap.onBehalfOf}</span>}
                           </div>
+                            <div className="text-gray-500 text-xs">
+                              Role: {ap.role} {ap.stage ? `• ${ap.stage}` : ""} {ap.decidedAt ? `• ${ap.decidedAt}` : ""}
+                              {earlierRound && " • not counted"}
+                            </div>
+                          </div>
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs ${
+                              ap.status === "Approved"
+                                ? "bg-green-100 text-green-700"
+                                : ap.status === "Rejected"
+                                ? "bg-red-100 text-red-700"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {ap.status}
+                          </span>
                         </div>
-                        <span
-                          className={`px-2 py-0.5 rounded text-xs ${
-                            ap.status === "Approved"
-                              ? "bg-green-100 text-green-700"
-                              : ap.status === "Rejected"
-                              ? "bg-red-100 text-red-700"
-                              : "bg-gray-100 text-gray-700"
-                          }`}
-                        >
-                          {ap.status}
-                        </span>
-                      </div>
-                    ))}
-                    {approvals.length === 0 && <div className="p-3 text-sm text-gray-500">No approvers configured.</div>}
+                      );
+                    })}
+                    {approvals.length === 0 && <div className="p-3 text-sm text-gray-500">No decisions recorded yet.</div>}
                   </div>
 
                   {pendingApprovals.length > 0 && (
@@ -2071,13 +2527,25 @@ const handleFormChange = (field: string, value: string) => {
             </div>
 
             <div className="px-6 py-4 border-t flex justify-end">
-              <button onClick={() => setShowModal(false)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+              <button onClick={closeDemandModal} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
                 Close
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictDialog
+          demandId={conflict.latest.data.id}
+          changes={conflict.changes}
+          attempted={conflict.attempted}
+          canRetry={canActOn(conflict.latest.data)}
+          onRetry={retryFromConflict}
+          onReload={reloadFromConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
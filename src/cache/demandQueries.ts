@@ -0,0 +1,87 @@
+import { queryCache, type QueryKey } from './queryCache';
+import type { Versioned } from '../ords/client';
+import type { Page } from '../api';
+import type { Demand } from '../types';
+
+/* ------------------------------
+ * Keys
+ * ------------------------------ */
+
+// Everything about demands lives under ["demands"], so one prefix reaches lists,
+// single demands and their sub-resources
+export const demandKeys = {
+  all: ['demands'] as const,
+  lists: () => ['demands', 'list'] as const,
+  list: (request: unknown) => ['demands', 'list', request] as const,
+  detail: (id: string) => ['demands', 'detail', id] as const,
+  comments: (id: string) => ['demands', 'detail', id, 'comments'] as const,
+  audit: (id: string) => ['demands', 'detail', id, 'audit'] as const,
+  approvals: (id: string) => ['demands', 'detail', id, 'approvals'] as const,
+  transitions: (id: string) => ['demands', 'detail', id, 'transitions'] as const,
+};
+
+// Delegations are not per demand, but decide which demands are in an approval queue
+export const delegationKeys = {
+  all: ['delegations'] as const,
+};
+
+/* ------------------------------
+ * Cache updates after mutations
+ * ------------------------------ */
+
+// Lists are cached either as a Page<Demand> or as a plain Demand[]
+type DemandList = Demand[] | Page<Demand>;
+
+function mapRows(list: DemandList, fn: (rows: Demand[]) => Demand[]): DemandList {
+  if (Array.isArray(list)) return fn(list);
+  return { ...list, items: fn(list.items) };
+}
+
+function isDetailKey(key: QueryKey) {
+  return key[1] === 'detail' && key.length === 3;
+}
+
+// Writes `patch` into the cached demand and every cached list row for it.
+// Returns a rollback for when the server refuses the change.
+export function patchCachedDemand(id: string, patch: Partial<Demand>): () => void {
+  const undoLists = queryCache.updateWhere<DemandList>(demandKeys.lists(), (list) =>
+    mapRows(list, (rows) => rows.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  );
+  const undoDetail = queryCache.updateWhere<Versioned<Demand>>(demandKeys.detail(id), (version, key) =>
+    isDetailKey(key) ? { ...version, data: { ...version.data, ...patch } } : version
+  );
+  return () => {
+    undoLists();
+    undoDetail();
+  };
+}
+
+// Stores the server's copy after a successful write, with its new ETag
+export function setCachedDemand(version: Versioned<Demand>): void {
+  queryCache.set(demandKeys.detail(version.data.id), version);
+  queryCache.updateWhere<DemandList>(demandKeys.lists(), (list) =>
+    mapRows(list, (rows) => rows.map((r) => (r.id === version.data.id ? version.data : r)))
+  );
+}
+
+// Drops a demand from every cached list; returns a rollback
+export function removeCachedDemand(id: string): () => void {
+  return queryCache.updateWhere<DemandList>(demandKeys.lists(), (list) =>
+    mapRows(list, (rows) => rows.filter((r) => r.id !== id))
+  );
+}
+
+// Lists are filtered and sorted by the server, so after a write they are refetched
+// rather than patched (a row may have moved into or out of a filter)
+export function invalidateDemandLists(): void {
+  queryCache.invalidate(demandKeys.lists());
+}
+
+export function invalidateDemand(id: string): void {
+  queryCache.invalidate(demandKeys.detail(id));
+}
+
+// A workflow move adds to the demand's stage history, which the repository writes
+export function invalidateTransitions(id: string): void {
+  queryCache.invalidate(demandKeys.transitions(id));
+}
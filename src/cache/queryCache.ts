@@ -0,0 +1,167 @@
+import { isAbortError } from '../ords/client';
+import { APP_CONFIG } from '../constants/app';
+
+/* ------------------------------
+ * Query cache
+ * ------------------------------ */
+
+// Keeps server data keyed by resource (e.g. ["demands", "detail", id]) so every view
+// reads the same copy. Fresh entries are served from memory; stale ones are served
+// and refetched in the background (stale-while-revalidate); concurrent requests for
+// one key share a single fetch. Mutations update or invalidate entries by key prefix.
+
+export type QueryKey = readonly unknown[];
+
+export type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  // When `data` was last fetched or set; 0 means stale
+  updatedAt: number;
+  fetching: boolean;
+}
+
+export interface FetchOptions {
+  // How long data counts as fresh; defaults to APP_CONFIG.QUERY_STALE_TIME
+  staleMs?: number;
+  // Fetch even if the data is fresh
+  force?: boolean;
+  // Abort the fetch if every subscriber goes away before it finishes (used by hooks)
+  cancelWhenUnused?: boolean;
+}
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  fetcher?: Fetcher<unknown>;
+  inflight?: { promise: Promise<unknown>; controller: AbortController; cancelWhenUnused: boolean };
+}
+
+// Stable string form; object keys are sorted so {a,b} and {b,a} match
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key, (_k, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+function startsWith(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+export function createQueryCache() {
+  const entries = new Map<string, Entry>();
+
+  function entry(key: QueryKey): Entry {
+    const hash = hashKey(key);
+    let e = entries.get(hash);
+    if (!e) {
+      e = { key, state: { updatedAt: 0, fetching: false }, listeners: new Set() };
+      entries.set(hash, e);
+    }
+    return e;
+  }
+
+  // States are replaced, never mutated, so subscribers can compare by reference
+  function update(e: Entry, patch: Partial<QueryState<unknown>>) {
+    e.state = { ...e.state, ...patch };
+    e.listeners.forEach((listener) => listener());
+  }
+
+  function matching(prefix: QueryKey): Entry[] {
+    return [...entries.values()].filter((e) => startsWith(e.key, prefix));
+  }
+
+  function fetch<T>(key: QueryKey, fetcher: Fetcher<T>, options: FetchOptions = {}): Promise<T> {
+    const e = entry(key);
+    e.fetcher = fetcher as Fetcher<unknown>;
+    const staleMs = options.staleMs ?? APP_CONFIG.QUERY_STALE_TIME;
+
+    if (e.inflight) {
+      // An imperative caller keeps a hook-started fetch alive
+      if (!options.cancelWhenUnused) e.inflight.cancelWhenUnused = false;
+      return e.inflight.promise as Promise<T>;
+    }
+    const fresh = e.state.data !== undefined && Date.now() - e.state.updatedAt < staleMs;
+    if (fresh && !options.force) return Promise.resolve(e.state.data as T);
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        e.inflight = undefined;
+        update(e, { data, error: undefined, updatedAt: Date.now(), fetching: false });
+        return data;
+      },
+      (error) => {
+        e.inflight = undefined;
+        update(e, isAbortError(error) ? { fetching: false } : { error, fetching: false });
+        throw error;
+      }
+    );
+    e.inflight = { promise, controller, cancelWhenUnused: !!options.cancelWhenUnused };
+    update(e, { fetching: true });
+    return promise;
+  }
+
+  function read<T>(key: QueryKey): QueryState<T> | undefined {
+    return entries.get(hashKey(key))?.state as QueryState<T> | undefined;
+  }
+
+  function set<T>(key: QueryKey, data: T | ((previous: T | undefined) => T)): void {
+    const e = entry(key);
+    const next = typeof data === 'function' ? (data as (previous: T | undefined) => T)(e.state.data as T | undefined) : data;
+    update(e, { data: next, error: undefined, updatedAt: Date.now() });
+  }
+
+  // Applies `updater` to every cached entry under `prefix` that has data. Returns a
+  // function that puts the previous data back (for rolling back optimistic updates).
+  function updateWhere<T>(prefix: QueryKey, updater: (data: T, key: QueryKey) => T): () => void {
+    const previous = matching(prefix)
+      .filter((e) => e.state.data !== undefined)
+      .map((e) => ({ e, data: e.state.data }));
+    for (const { e, data } of previous) {
+      const next = updater(data as T, e.key);
+      if (next !== data) update(e, { data: next });
+    }
+    return () => {
+      for (const { e, data } of previous) update(e, { data });
+    };
+  }
+
+  // Marks entries under `prefix` stale and refetches the ones on screen
+  function invalidate(prefix: QueryKey): void {
+    for (const e of matching(prefix)) {
+      update(e, { updatedAt: 0 });
+      if (e.listeners.size > 0 && e.fetcher) {
+        fetch(e.key, e.fetcher, { force: true, cancelWhenUnused: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  function subscribe(key: QueryKey, listener: () => void): () => void {
+    const e = entry(key);
+    e.listeners.add(listener);
+    return () => {
+      e.listeners.delete(listener);
+      // Deferred so an immediate re-subscribe (StrictMode, key flip-flop) keeps the fetch
+      setTimeout(() => {
+        if (e.listeners.size === 0 && e.inflight?.cancelWhenUnused) e.inflight.controller.abort();
+      }, 0);
+    };
+  }
+
+  function clear(): void {
+    entries.forEach((e) => e.inflight?.controller.abort());
+    entries.clear();
+  }
+
+  return { fetch, read, set, updateWhere, invalidate, subscribe, clear };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+// The app-wide cache
+export const queryCache = createQueryCache();
@@ -1,10 +1,11 @@
 import React from 'react';
 import { useRBAC } from '../../rbac/context';
+import type { DemandAction } from '../../rbac/policy';
 import type { Demand } from '../../types';
 
 interface DemandAccessProps {
   demand: Demand;
-  action: 'view' | 'edit' | 'delete' | 'approve';
+  action: DemandAction;
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
@@ -12,23 +13,8 @@ interface DemandAccessProps {
 export function DemandAccess({ demand, action, children, fallback }: DemandAccessProps) {
   const rbac = useRBAC();
   
-  let hasAccess = false;
-
-  switch (action) {
-    case 'view':
-      hasAccess = rbac.canAccessDemand(demand);
-      break;
-    case 'edit':
-      hasAccess = rbac.canModifyDemand(demand);
-      break;
-    case 'delete':
-      hasAccess = rbac.canModifyDemand(demand) && rbac.hasPermission('demand.delete');
-      break;
-    case 'approve':
-      hasAccess = rbac.hasPermission('demand.approve') && 
-                  (demand.status === 'Submitted' || demand.status === 'Under Review');
-      break;
-  }
+  // Roles, department, ownership and the demand's stage, as the access policy has them
+  const hasAccess = rbac.can(action, demand);
 
   if (!hasAccess) {
     return fallback ? <>{fallback}</> : null;
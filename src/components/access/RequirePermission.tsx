@@ -1,6 +1,6 @@
 import React from 'react';
 import { useRBAC } from '../../rbac/context';
-import { Permission } from '../../rbac/types';
+import type { Permission } from '../../rbac/types';
 
 interface RequirePermissionProps {
   permission: Permission | Permission[];
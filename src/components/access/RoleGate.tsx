@@ -1,6 +1,6 @@
 import React from 'react';
 import { useRBAC } from '../../rbac/context';
-import { Role } from '../../rbac/types';
+import type { Role } from '../../rbac/types';
 
 interface RoleGateProps {
   roles: Role | Role[];
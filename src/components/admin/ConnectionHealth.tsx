@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity, AlertCircle, CheckCircle, MinusCircle, XCircle } from 'lucide-react';
+import { HEALTH_CHECKS, overallStatus, runHealthChecks } from '../../health/checks';
+import type { HealthCheckResult, HealthStatus } from '../../health/types';
+import { getOrdsClient } from '../../api';
+import { getRepository } from '../../repository';
+import { isAbortError } from '../../ords/client';
+
+const STATUS_STYLE: Record<HealthStatus, { label: string; className: string; Icon: typeof CheckCircle }> = {
+  pass: { label: 'Pass', className: 'bg-green-100 text-green-800', Icon: CheckCircle },
+  warn: { label: 'Warning', className: 'bg-yellow-100 text-yellow-800', Icon: AlertCircle },
+  fail: { label: 'Fail', className: 'bg-red-100 text-red-800', Icon: XCircle },
+  skip: { label: 'Skipped', className: 'bg-gray-100 text-gray-700', Icon: MinusCircle },
+};
+
+function StatusBadge({ status }: { status: HealthStatus }) {
+  const { label, className, Icon } = STATUS_STYLE[status];
+  return (
+    <span className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  );
+}
+
+// Admin report on the ORDS connection. The checks are read-only (see health/checks.ts).
+export function ConnectionHealth() {
+  const [results, setResults] = useState<HealthCheckResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ranAt, setRanAt] = useState<Date | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Leaving the page stops a run in progress
+  useEffect(() => () => controller.current?.abort(), []);
+
+  async function run() {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setRunning(true);
+    setError(null);
+    setResults([]);
+    try {
+      await runHealthChecks({ signal: current.signal, onResult: (result) => setResults((previous) => [...previous, result]) });
+      setRanAt(new Date());
+    } catch (runError) {
+      if (!isAbortError(runError)) setError(runError instanceof Error ? runError.message : String(runError));
+    } finally {
+      if (controller.current === current) setRunning(false);
+    }
+  }
+
+  const client = getOrdsClient();
+  const backend = getRepository().backend;
+  const pending = HEALTH_CHECKS.slice(results.length);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <Activity className="w-5 h-5 mr-2 text-blue-600" />
+            Connection Health
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            ORDS at <code>{client.baseUrl}</code>, update mode <code>{client.updateMode}</code>. Nothing is written by these checks.
+          </p>
+          {backend !== 'ords' && (
+            <p className="mt-1 text-sm text-yellow-700">
+              The app is currently using the local "{backend}" backend (VITE_BACKEND), so ORDS problems do not affect it.
+            </p>
+          )}
+          {ranAt && !running && (
+            <p className="mt-1 text-xs text-gray-500">
+              Last run {ranAt.toLocaleString()} — overall <StatusBadge status={overallStatus(results)} />
+            </p>
+          )}
+        </div>
+        <button
+          onClick={run}
+          disabled={running}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? 'Running…' : results.length ? 'Run again' : 'Run checks'}
+        </button>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">{error}</div>}
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Check</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Latency</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Evidence</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {results.map((r) => (
+              <tr key={r.id} className="align-top">
+                <td className="px-4 py-3 font-medium text-gray-900">{r.name}</td>
+                <td className="px-4 py-3">
+                  <StatusBadge status={r.status} />
+                </td>
+                <td className="px-4 py-3 text-right text-gray-600">{r.latencyMs} ms</td>
+                <td className="px-4 py-3">
+                  <ul className="space-y-1 text-gray-700">
+                    {r.evidence.map((line, i) => (
+                      <li key={i} className="font-mono text-xs break-all">
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                  {r.remediation && <p className="mt-2 text-xs text-blue-800 bg-blue-50 rounded p-2">{r.remediation}</p>}
+                </td>
+              </tr>
+            ))}
+            {pending.map((check) => (
+              <tr key={check.id} className="align-top text-gray-400">
+                <td className="px-4 py-3 font-medium">{check.name}</td>
+                <td className="px-4 py-3">{running ? 'Waiting…' : '—'}</td>
+                <td className="px-4 py-3" />
+                <td className="px-4 py-3 text-xs">{check.description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
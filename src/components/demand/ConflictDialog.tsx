@@ -0,0 +1,102 @@
+import { AlertTriangle } from 'lucide-react';
+import type { Demand } from '../../types';
+import type { FieldChange } from '../../utils/diff';
+
+interface ConflictDialogProps {
+  demandId: string;
+  // What another user changed since this demand was opened
+  changes: FieldChange<Demand>[];
+  // The change that was refused
+  attempted: Partial<Demand>;
+  // False when the latest version no longer allows the attempted action
+  canRetry: boolean;
+  onRetry: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+function display(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+// Shown when a save is refused with 412 because the demand changed underneath the user
+export function ConflictDialog({ demandId, changes, attempted, canRetry, onRetry, onReload, onCancel }: ConflictDialogProps) {
+  const mine = Object.entries(attempted) as [keyof Demand & string, unknown][];
+  const overlapping = new Set(changes.map((c) => c.field).filter((f) => f in attempted));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">{demandId} was changed by someone else</h3>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Your change was not saved because this demand was updated after you opened it.
+          </p>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Changed since you opened it</h4>
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-500">No visible field changes.</p>
+            ) : (
+              <table className="min-w-full text-sm divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">You saw</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Now</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changes.map((c) => (
+                    <tr key={c.field} className={overlapping.has(c.field) ? 'bg-yellow-50' : ''}>
+                      <td className="px-3 py-2 font-medium">{c.field}</td>
+                      <td className="px-3 py-2 text-gray-500 line-through">{display(c.before)}</td>
+                      <td className="px-3 py-2">{display(c.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Your change</h4>
+            <ul className="text-sm text-gray-700 list-disc list-inside">
+              {mine.map(([field, value]) => (
+                <li key={field}>
+                  {field}: {display(value)}
+                  {overlapping.has(field) && <span className="ml-2 text-yellow-700">(also changed by someone else)</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {!canRetry && (
+            <p className="text-sm text-red-600">The latest version no longer allows this action, so it cannot be retried.</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            Cancel
+          </button>
+          <button onClick={onReload} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            Discard mine and reload
+          </button>
+          <button
+            onClick={onRetry}
+            disabled={!canRetry}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Apply mine to latest
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
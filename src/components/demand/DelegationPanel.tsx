@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { UserCheck, X } from 'lucide-react';
+import { useQuery } from '../../hooks/useQuery';
+import { queryCache } from '../../cache/queryCache';
+import { delegationKeys } from '../../cache/demandQueries';
+import { getRepository } from '../../repository';
+import { describeError } from '../../ords/errors';
+import { DEMAND_TYPES } from '../../schemas';
+import { delegableRoles, getWorkflow, isDelegationActive, localDay } from '../../workflow';
+import type { Role } from '../../rbac/types';
+import type { Delegation, DemandType } from '../../types';
+
+const NO_DELEGATIONS: Delegation[] = [];
+
+function describeScope(d: Delegation): string {
+  const parts = [d.departments.join(', '), d.types.join(', ')].filter(Boolean);
+  return parts.length ? parts.join(' • ') : 'All demands';
+}
+
+function DelegationRow({ d, who, onRemove }: { d: Delegation; who: string; onRemove?: () => void }) {
+  return (
+    <li className="py-2 flex items-center justify-between">
+      <div>
+        <div className="font-medium text-gray-900">
+          {who} <span className="text-gray-500 font-normal">as {d.role}</span>
+          {isDelegationActive(d) && <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-100 text-green-700">Active</span>}
+        </div>
+        <div className="text-xs text-gray-500">
+          {d.startsOn.slice(0, 10)} – {d.endsOn.slice(0, 10)} • {describeScope(d)}
+        </div>
+      </div>
+      {onRemove && (
+        <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-600" title="Remove">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </li>
+  );
+}
+
+// Out-of-office: hand the user's approvals to someone else for a few days, and see
+// whose approvals they are standing in for. `userId` is the user's AAD object id;
+// `roles` are their verified roles, of which only those approving at some stage can
+// be handed over.
+export function DelegationPanel({ userName, userId, roles }: { userName: string; userId: string; roles: Role[] }) {
+  const repository = getRepository();
+  const delegationsQuery = useQuery(delegationKeys.all, (signal) => repository.listDelegations({ signal }));
+  const delegations = delegationsQuery.data ?? NO_DELEGATIONS;
+  const today = localDay();
+  // Past delegations are of no interest here
+  const current = delegations.filter((d) => d.endsOn.slice(0, 10) >= today);
+  const given = current.filter((d) => d.delegatorId === userId);
+  const received = current.filter((d) => d.delegateId === userId);
+  const approverRoles = delegableRoles(getWorkflow(), roles);
+  const approves = approverRoles.length > 0;
+
+  const [chosenRole, setRole] = useState<Role | undefined>(undefined);
+  const role = chosenRole && approverRoles.includes(chosenRole) ? chosenRole : approverRoles[0];
+  const [delegate, setDelegate] = useState('');
+  const [delegateId, setDelegateId] = useState('');
+  const [startsOn, setStartsOn] = useState(today);
+  const [endsOn, setEndsOn] = useState(today);
+  const [departments, setDepartments] = useState('');
+  const [types, setTypes] = useState<DemandType[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  async function add() {
+    const name = delegate.trim();
+    const id = delegateId.trim();
+    // Only roles the user holds can be handed over; the guard refuses any other
+    if (!role || !roles.includes(role)) return;
+    if (!name || !id || id === userId) {
+      alert('Name someone else to approve for you, with their object ID.');
+      return;
+    }
+    if (endsOn < startsOn || endsOn < today) {
+      alert('The end date has to be today or later, and not before the start date.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const delegation = {
+        delegator: userName,
+        delegatorId: userId,
+        role,
+        delegatorRoles: roles,
+        delegate: name,
+        delegateId: id,
+        startsOn,
+        endsOn,
+        departments: departments.split(',').map((d) => d.trim()).filter(Boolean),
+        types,
+      };
+      const saved = await repository.addDelegation(delegation, { grantor: { id: userId, roles } });
+      queryCache.set<Delegation[]>(delegationKeys.all, (prev = []) => [...prev, saved]);
+      setDelegate('');
+      setDelegateId('');
+      setDepartments('');
+      setTypes([]);
+    } catch (error) {
+      alert(`Could not save the delegation: ${describeError(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(d: Delegation) {
+    if (!confirm(`Stop ${d.delegate} approving for you as ${d.role}?`)) return;
+    try {
+      await repository.removeDelegation(d.id);
+      queryCache.set<Delegation[]>(delegationKeys.all, (prev = []) => prev.filter((x) => x.id !== d.id));
+    } catch (error) {
+      alert(`Could not remove the delegation: ${describeError(error)}`);
+    }
+  }
+
+  if (!approves && received.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <UserCheck className="w-5 h-5 mr-2 text-gray-500" />
+          Delegation
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          While you are away, someone else can approve for you. Their decisions are recorded as made on your behalf.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 space-y-4 text-sm">
+        {approves && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <label className="block">
+              <span className="text-gray-700">Approve for me{approverRoles.length === 1 && ` (${role})`}</span>
+              <input
+                value={delegate}
+                onChange={(e) => setDelegate(e.target.value)}
+                placeholder="Name"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">Their object ID</span>
+              <input
+                value={delegateId}
+                onChange={(e) => setDelegateId(e.target.value)}
+                placeholder="From their Entra ID profile"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono"
+              />
+            </label>
+            {approverRoles.length > 1 && (
+              <label className="block">
+                <span className="text-gray-700">As</span>
+                <select value={role} onChange={(e) => setRole(e.target.value as Role)} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md">
+                  {approverRoles.map((r) => (
+                    <option key={r}>{r}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="block">
+              <span className="text-gray-700">From</span>
+              <input type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md" />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">Until</span>
+              <input type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md" />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">Only departments</span>
+              <input
+                value={departments}
+                onChange={(e) => setDepartments(e.target.value)}
+                placeholder="All (or e.g. Finance, Legal)"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <div className="md:col-span-3 flex flex-wrap items-center gap-3">
+              <span className="text-gray-700">Only types:</span>
+              {DEMAND_TYPES.map((t) => (
+                <label key={t} className="inline-flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={types.includes(t)}
+                    onChange={(e) => setTypes(e.target.checked ? [...types, t] : types.filter((x) => x !== t))}
+                  />
+                  <span>{t}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={add}
+                disabled={busy || !delegate.trim() || !delegateId.trim()}
+                className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Delegate
+              </button>
+            </div>
+          </div>
+        )}
+
+        {given.length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase">Approving for you</div>
+            <ul className="divide-y divide-gray-100">
+              {given.map((d) => (
+                <DelegationRow key={d.id} d={d} who={d.delegate} onRemove={() => remove(d)} />
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {received.length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase">You approve for</div>
+            <ul className="divide-y divide-gray-100">
+              {received.map((d) => (
+                <DelegationRow key={d.id} d={d} who={d.delegator} />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
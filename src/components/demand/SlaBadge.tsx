@@ -0,0 +1,27 @@
+import type { SlaStatus } from '../../workflow';
+
+const STYLES: Record<SlaStatus['state'], string> = {
+  'on-track': 'bg-gray-100 text-gray-700',
+  'due-soon': 'bg-yellow-100 text-yellow-800',
+  breached: 'bg-red-100 text-red-700',
+};
+
+// Time at the stage against its target; nothing when no clock runs
+export function SlaBadge({ sla }: { sla: SlaStatus | undefined }) {
+  if (!sla) return null;
+  const due = sla.dueOn.toLocaleDateString();
+  const label =
+    sla.state === 'breached'
+      ? `Overdue ${sla.elapsed - sla.target}d${sla.escalatedTo ? ` • escalated to ${sla.escalatedTo}` : ''}`
+      : sla.state === 'due-soon'
+        ? `Due ${due}`
+        : `${sla.elapsed}/${sla.target} days`;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs whitespace-nowrap ${STYLES[sla.state]}`}
+      title={`${sla.elapsed} of ${sla.target} business days at ${sla.stage}; due ${due}`}
+    >
+      {label}
+    </span>
+  );
+}
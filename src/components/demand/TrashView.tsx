@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { usePagedDemands } from '../../hooks/usePagedDemands';
+import { getRepository } from '../../repository';
+import { invalidateDemandLists, removeCachedDemand, setCachedDemand } from '../../cache/demandQueries';
+import { describeError } from '../../ords/errors';
+import { useRBAC } from '../../rbac/context';
+import type { Demand } from '../../types';
+
+function formatWhen(value: string | null): string {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+// Soft-deleted demands. Everyone who can open this view sees them; restoring and
+// purging need demand.delete.
+export function TrashView() {
+  const rbac = useRBAC();
+  const canManage = rbac.hasPermission('demand.delete');
+  const trash = usePagedDemands({ filter: { deleted: 'only' }, sort: [{ field: 'deleted_at', direction: 'desc' }] });
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function restore(d: Demand) {
+    setBusyId(d.id);
+    try {
+      setCachedDemand(await getRepository().restoreDemand(d.id));
+      invalidateDemandLists();
+    } catch (error) {
+      alert(`Restore failed: ${describeError(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function purge(d: Demand) {
+    if (!confirm(`Permanently delete ${d.id} "${d.title}"? This cannot be undone.`)) return;
+    setBusyId(d.id);
+    const undo = removeCachedDemand(d.id);
+    try {
+      await getRepository().purgeDemand(d.id);
+      invalidateDemandLists();
+    } catch (error) {
+      undo();
+      alert(`Purge failed: ${describeError(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <Trash2 className="w-5 h-5 mr-2 text-gray-500" />
+          Trash
+        </h2>
+        <p className="mt-1 text-sm text-gray-600">
+          Deleted demands are kept here and left out of every other list.
+          {!canManage && ' Restoring and purging need the delete permission.'}
+        </p>
+      </div>
+
+      {trash.error ? (
+        <div className="px-6 py-4 text-sm text-red-700">Could not load the trash: {describeError(trash.error)}</div>
+      ) : trash.loading ? (
+        <div className="px-6 py-4 text-sm text-gray-500">Loading…</div>
+      ) : trash.items.length === 0 ? (
+        <div className="px-6 py-4 text-sm text-gray-500">The trash is empty.</div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Demand</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Deleted by</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Deleted at</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {trash.items.map((d) => (
+              <tr key={d.id}>
+                <td className="px-6 py-3">
+                  <div className="font-medium text-gray-900">{d.title}</div>
+                  <div className="text-xs text-gray-500">{d.id}</div>
+                </td>
+                <td className="px-6 py-3 text-gray-700">{d.status}</td>
+                <td className="px-6 py-3 text-gray-700">{d.deleted_by ?? '—'}</td>
+                <td className="px-6 py-3 text-gray-700">{formatWhen(d.deleted_at)}</td>
+                <td className="px-6 py-3 text-right whitespace-nowrap">
+                  {canManage && (
+                    <>
+                      <button
+                        onClick={() => restore(d)}
+                        disabled={busyId === d.id}
+                        className="inline-flex items-center px-3 py-1 mr-2 text-sm text-blue-700 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => purge(d)}
+                        disabled={busyId === d.id}
+                        className="inline-flex items-center px-3 py-1 text-sm text-red-700 bg-red-50 rounded hover:bg-red-100 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete forever
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {(trash.page > 1 || trash.hasMore) && (
+        <div className="px-6 py-3 border-t border-gray-200 flex justify-end space-x-2 text-sm">
+          <button
+            onClick={() => trash.setPage(trash.page - 1)}
+            disabled={trash.page === 1}
+            className="px-3 py-1 border border-gray-300 rounded disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => trash.setPage(trash.page + 1)}
+            disabled={!trash.hasMore}
+            className="px-3 py-1 border border-gray-300 rounded disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,9 @@ export const APP_CONFIG = {
   // Retry Logic
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // ms
+
+  // Caching
+  QUERY_STALE_TIME: 30000, // ms cached data is served without refetching
 } as const;
 
 // User Interface Constants
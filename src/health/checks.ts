@@ -0,0 +1,273 @@
+import { getOrdsClient } from '../api';
+import { isAbortError, type OrdsClient } from '../ords/client';
+import {
+  AuthRequiredError,
+  ForbiddenError,
+  HtmlResponseError,
+  NetworkError,
+  NotFoundError,
+  OrdsError,
+  PreconditionFailedError,
+  ResponseShapeError,
+  TimeoutError,
+} from '../ords/errors';
+import { buildQuery } from '../ords/query';
+import { byColumn, parseRows, type OrdsRow } from '../normalize';
+import { demandSchema } from '../schemas';
+import type { HealthCheck, HealthCheckResult, HealthContext, HealthOutcome, HealthStatus } from './types';
+
+/* ------------------------------
+ * Connection health checks
+ * ------------------------------ */
+
+// Read-only probes of the ORDS backend. Nothing is created or deleted: write access is
+// tested by sending an existing row back unchanged with an If-Match that cannot match,
+// which ORDS refuses with 412 before touching the table.
+
+const STALE_ETAG = '"connection-health-check"';
+
+// One line describing a failed request, for the evidence list
+function requestEvidence(error: unknown): string {
+  if (!(error instanceof OrdsError)) return error instanceof Error ? error.message : String(error);
+  const request = [error.method, error.url].filter(Boolean).join(' ');
+  const status = error.status !== undefined ? ` → ${error.status}${error.code ? ` ${error.code}` : ''}` : '';
+  const ref = error.requestId ? ` (request ${error.requestId})` : '';
+  return `${request || 'Request'}${status}: ${error.message}${ref}`;
+}
+
+export function remediationFor(error: unknown): string | undefined {
+  if (error instanceof TimeoutError) return 'ORDS is reachable but slow. Check the database session pool and the ORDS log for long-running handlers.';
+  if (error instanceof NetworkError) return 'Check that ORDS is running and that VITE_API_TARGET (dev proxy) or VITE_API_BASE points at it.';
+  if (error instanceof HtmlResponseError) return 'The URL reached a web page instead of ORDS. Check the base path (e.g. /ords/<schema>) and the proxy rewrite.';
+  if (error instanceof AuthRequiredError) return 'ORDS wants credentials for this call. Configure client auth, or review the privileges protecting the module.';
+  if (error instanceof ForbiddenError) return 'The ORDS user lacks privileges on this resource. Grant them, or review the privileges protecting the module.';
+  if (error instanceof NotFoundError) return 'Enable AutoREST on the table (ORDS.ENABLE_OBJECT) or check the module and template paths.';
+  if (error instanceof ResponseShapeError) return `The handler returns a "${error.field}" value the app does not accept. Fix the column or the handler's SELECT.`;
+  if (error instanceof OrdsError && error.status === 555) return 'The handler raised a SQL error. Look up the request id in the ORDS log.';
+  return undefined;
+}
+
+function failure(error: unknown): HealthOutcome {
+  return { status: 'fail', evidence: [requestEvidence(error)], remediation: remediationFor(error) };
+}
+
+function itemPath(id: string): string {
+  return `/demands/${encodeURIComponent(id)}`;
+}
+
+const reachability: HealthCheck = {
+  id: 'reachability',
+  name: 'ORDS reachable',
+  description: 'Lists one demand to confirm the API base URL answers with an ORDS collection.',
+  async run(context) {
+    const { client, signal } = context;
+    const json = await client.get<{ items?: unknown; hasMore?: unknown }>('/demands/', { signal, query: { limit: 1 }, retry: false });
+    if (!Array.isArray(json?.items)) {
+      return {
+        status: 'fail',
+        evidence: [`GET ${client.baseUrl}/demands/ answered without an "items" list`],
+        remediation: 'The path is served by something other than an AutoREST collection. Check the module path and handler.',
+      };
+    }
+    const first = json.items[0] as OrdsRow | undefined;
+    if (first) context.sample = { id: String(byColumn(first).id), row: first };
+    return {
+      status: 'pass',
+      evidence: [
+        `GET ${client.baseUrl}/demands/?limit=1 returned ${json.items.length} row(s)`,
+        `hasMore: ${String(json.hasMore ?? 'not sent')}`,
+      ],
+    };
+  },
+};
+
+const responseShape: HealthCheck = {
+  id: 'response-shape',
+  name: 'Demand rows match the app',
+  description: 'Validates a page of demands against the schema the UI relies on.',
+  async run({ client, signal }) {
+    const json = await client.get<{ items?: OrdsRow[] }>('/demands/', { signal, query: { limit: 25 }, retry: false });
+    const rows = parseRows(demandSchema, 'demand', json);
+    const keys = Object.keys(json.items?.[0] ?? {}).filter((k) => k !== 'links');
+    const evidence = [`${rows.length} row(s) validated`];
+    if (keys.length) {
+      const upper = keys.every((k) => k === k.toUpperCase());
+      evidence.push(`Columns arrive ${upper ? 'UPPER_CASE' : 'lower_case'} (both are normalized)`);
+    }
+    return { status: 'pass', evidence };
+  },
+};
+
+const etags: HealthCheck = {
+  id: 'etags',
+  name: 'ETags on demands',
+  description: 'Reads one demand and looks for the ETag used to detect concurrent edits.',
+  async run(context) {
+    const { client, signal, sample } = context;
+    if (!sample) return { status: 'skip', evidence: ['No demand was read (the table is empty or listing failed)'] };
+    const { data, etag } = await client.versioned<OrdsRow>(itemPath(sample.id), { signal, retry: false });
+    context.sample = { ...sample, row: data, etag };
+    if (!etag) {
+      return {
+        status: 'warn',
+        evidence: [`GET ${itemPath(sample.id)} sent no ETag header`],
+        remediation: 'Without ETags concurrent approvals overwrite each other. AutoREST sends them; custom GET handlers must set one.',
+      };
+    }
+    return { status: 'pass', evidence: [`GET ${itemPath(sample.id)} → ETag ${etag}`] };
+  },
+};
+
+const writeAccess: HealthCheck = {
+  id: 'write-access',
+  name: 'Updates allowed and guarded',
+  description: 'Sends a demand back unchanged with a stale If-Match; ORDS should refuse it with 412 without writing.',
+  async run(context) {
+    const { client, signal, sample } = context;
+    if (!sample?.etag) {
+      return {
+        status: 'skip',
+        evidence: ['Skipped so that nothing is written: no ETag was read, so a stale If-Match cannot be relied on to stop the write'],
+      };
+    }
+    // Exactly the row that was read, so even a server ignoring If-Match changes nothing
+    const body = byColumn(sample.row);
+    delete body.links;
+    const attempt = `PUT ${itemPath(sample.id)} with If-Match ${STALE_ETAG}`;
+    try {
+      await client.versioned(itemPath(sample.id), {
+        signal,
+        method: 'PUT',
+        body,
+        headers: { 'If-Match': STALE_ETAG },
+        retry: false,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (error instanceof PreconditionFailedError) {
+        context.enforcesIfMatch = true;
+        return { status: 'pass', evidence: [`${attempt} → 412`, 'Writes are authorized and stale versions are refused'] };
+      }
+      const outcome = failure(error);
+      return { ...outcome, evidence: [attempt, ...outcome.evidence] };
+    }
+    context.enforcesIfMatch = false;
+    return {
+      status: 'warn',
+      evidence: [`${attempt} was accepted`, 'The row was rewritten with its own values'],
+      remediation: 'The server ignores If-Match, so concurrent edits are not detected. Use AutoREST or check If-Match in the PUT handler.',
+    };
+  },
+};
+
+const patchSupport: HealthCheck = {
+  id: 'patch',
+  name: 'PATCH updates',
+  description: 'With VITE_ORDS_UPDATE_MODE=patch, checks that the backend accepts PATCH (again with a stale If-Match).',
+  async run({ client, signal, sample, enforcesIfMatch }) {
+    if (client.updateMode !== 'patch') return { status: 'skip', evidence: ['Update mode is "put"; PATCH is not used'] };
+    if (!sample || !enforcesIfMatch) {
+      return { status: 'skip', evidence: ['Skipped so that nothing is written: stale If-Match was not shown to be refused'] };
+    }
+    const attempt = `PATCH ${itemPath(sample.id)} with If-Match ${STALE_ETAG}`;
+    try {
+      await client.versioned(itemPath(sample.id), { signal, method: 'PATCH', body: {}, headers: { 'If-Match': STALE_ETAG }, retry: false });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (error instanceof PreconditionFailedError) return { status: 'pass', evidence: [`${attempt} → 412`] };
+      if (error instanceof OrdsError && (error.status === 405 || error.status === 501)) {
+        return {
+          status: 'warn',
+          evidence: [`${attempt} → ${error.status}`],
+          remediation: 'The backend does not take PATCH; updates fall back to a full-row PUT. Set VITE_ORDS_UPDATE_MODE=put to skip the extra request.',
+        };
+      }
+      return failure(error);
+    }
+    return { status: 'warn', evidence: [`${attempt} was accepted with an empty body`], remediation: 'The PATCH handler ignores If-Match.' };
+  },
+};
+
+// Endpoints the app uses for a demand's sub-resources; missing ones only hide a tab
+function relatedEndpoints(id: string): { name: string; path: string; query?: Record<string, string | number | undefined> }[] {
+  const base = itemPath(id);
+  return [
+    { name: 'Comments', path: `${base}/comments` },
+    { name: 'Audit trail', path: `${base}/audit` },
+    { name: 'Approvals', path: '/xxitdm_approvals/', query: { q: buildQuery<{ demand_id: string }>({ demand_id: id }) } },
+    { name: 'Attachments', path: `${base}/attachments` },
+  ];
+}
+
+const relatedResources: HealthCheck = {
+  id: 'related',
+  name: 'Comments, audit, approvals, attachments',
+  description: 'Reads each sub-resource of one demand; these are optional, so a missing one is a warning.',
+  async run({ client, signal, sample }) {
+    if (!sample) return { status: 'skip', evidence: ['No demand was read (the table is empty or listing failed)'] };
+    const evidence: string[] = [];
+    let status: HealthStatus = 'pass';
+    let remediation: string | undefined;
+    for (const endpoint of relatedEndpoints(sample.id)) {
+      try {
+        await client.get(endpoint.path, { signal, query: { limit: 1, ...endpoint.query }, retry: false });
+        evidence.push(`${endpoint.name}: GET ${endpoint.path} ok`);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        evidence.push(`${endpoint.name}: ${requestEvidence(error)}`);
+        if (error instanceof NotFoundError) {
+          if (status === 'pass') status = 'warn';
+          remediation ??= 'Create the missing handlers (or enable AutoREST on their tables) to turn on those tabs.';
+        } else {
+          status = 'fail';
+          remediation = remediationFor(error) ?? remediation;
+        }
+      }
+    }
+    return { status, evidence, remediation };
+  },
+};
+
+// In the order they run; later checks use what earlier ones found
+export const HEALTH_CHECKS: HealthCheck[] = [reachability, responseShape, etags, writeAccess, patchSupport, relatedResources];
+
+/* ------------------------------
+ * Runner
+ * ------------------------------ */
+
+export interface RunHealthChecksOptions {
+  client?: OrdsClient;
+  signal?: AbortSignal;
+  // Called as each check finishes, so a report can fill in progressively
+  onResult?: (result: HealthCheckResult) => void;
+}
+
+export async function runHealthChecks(
+  { client = getOrdsClient(), signal, onResult }: RunHealthChecksOptions = {},
+  checks: HealthCheck[] = HEALTH_CHECKS
+): Promise<HealthCheckResult[]> {
+  const context: HealthContext = { client, signal };
+  const results: HealthCheckResult[] = [];
+
+  for (const check of checks) {
+    signal?.throwIfAborted();
+    const started = performance.now();
+    let outcome: HealthOutcome;
+    try {
+      outcome = await check.run(context);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      outcome = failure(error);
+    }
+    const result = { id: check.id, name: check.name, latencyMs: Math.round(performance.now() - started), ...outcome };
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
+
+// The worst status in a report
+export function overallStatus(results: HealthCheckResult[]): HealthStatus {
+  const order: HealthStatus[] = ['fail', 'warn', 'pass', 'skip'];
+  return order.find((status) => results.some((r) => r.status === status)) ?? 'skip';
+}
@@ -0,0 +1,42 @@
+import type { OrdsClient } from '../ords/client';
+import type { OrdsRow } from '../normalize';
+
+/* ------------------------------
+ * Health check types
+ * ------------------------------ */
+
+// skip: the check could not run safely or does not apply (the evidence says why)
+export type HealthStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface HealthCheckResult {
+  id: string;
+  name: string;
+  status: HealthStatus;
+  // Time the check spent, mostly waiting on ORDS
+  latencyMs: number;
+  // What was observed, one fact per line (request, status, header, ...)
+  evidence: string[];
+  // What to change when the check did not pass
+  remediation?: string;
+}
+
+// What a check reports; the runner adds the id, name and timing
+export type HealthOutcome = Pick<HealthCheckResult, 'status' | 'evidence' | 'remediation'>;
+
+// Shared by the checks of one run, so later checks can build on what earlier ones found
+export interface HealthContext {
+  client: OrdsClient;
+  signal?: AbortSignal;
+  // A demand row read by an earlier check, as ORDS returned it
+  sample?: { id: string; row: OrdsRow; etag?: string };
+  // Whether the server refused a write carrying a stale If-Match
+  enforcesIfMatch?: boolean;
+}
+
+export interface HealthCheck {
+  id: string;
+  name: string;
+  // One line for the report, saying what is checked
+  description: string;
+  run(context: HealthContext): Promise<HealthOutcome>;
+}
@@ -8,7 +8,7 @@ export function useAADUser() {
   // MSAL AccountInfo often has what we need directly:
   // - account?.name (display name)
   // - account?.username (UPN/email-like)
-  const claims = (account?.idTokenClaims ?? {}) as Record<string, any>;
+  const claims = (account?.idTokenClaims ?? {}) as Record<string, unknown>;
 
   const name =
     account?.name ||                                   // best source
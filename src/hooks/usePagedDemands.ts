@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import { toDemandQuery, type DemandListFilter, type DemandPageRequest, type DemandSort, type Page } from '../api';
+import { getRepository } from '../repository';
+import type { Filter } from '../ords/query';
+import { APP_CONFIG } from '../constants/app';
+import { demandKeys } from '../cache/demandQueries';
+import { useQuery } from './useQuery';
+import type { Demand } from '../types';
+
+interface PagedDemandsOptions {
+  filter: DemandListFilter;
+  where?: Filter<Demand>;
+  sort: DemandSort[];
+  pageSize?: number;
+  // When false nothing is loaded, e.g. a queue the user has no role for
+  enabled?: boolean;
+}
+
+// Loads only the current page of demands; filtering and sorting happen in the backend.
+// Changing the filter or sort returns to page 1. Pages come from the query cache,
+// so going back to a page already seen is instant (and revalidated if stale).
+export function usePagedDemands({ filter, where, sort, pageSize = APP_CONFIG.DEFAULT_PAGE_SIZE, enabled = true }: PagedDemandsOptions) {
+  const [page, setPage] = useState(1);
+
+  // Callers pass fresh object literals every render, so the criteria are compared by
+  // the q= they make. The request keeps the objects: a Date only becomes {"$date": …}
+  // when the query is built.
+  const criteriaKey = JSON.stringify(toDemandQuery({ filter, where, sort }));
+
+  useEffect(() => {
+    setPage(1);
+  }, [criteriaKey]);
+
+  const request: DemandPageRequest = { filter, where, sort, offset: (page - 1) * pageSize, limit: pageSize };
+  const query = useQuery(demandKeys.list(request), (signal) => getRepository().listDemands(request, { signal }), { enabled });
+
+  // Keep showing the previous page while the next one loads
+  const shown = useRef<Page<Demand> | undefined>(undefined);
+  useEffect(() => {
+    if (query.data) shown.current = query.data;
+  }, [query.data]);
+  const current = query.data ?? shown.current;
+
+  return {
+    items: current?.items ?? [],
+    page,
+    setPage,
+    pageSize,
+    hasMore: query.data?.hasMore ?? false,
+    loading: query.loading,
+    error: query.error,
+    reload: query.refetch,
+  };
+}
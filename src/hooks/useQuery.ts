@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { hashKey, queryCache, type Fetcher, type QueryKey, type QueryState } from '../cache/queryCache';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleMs?: number;
+}
+
+const IDLE: QueryState<never> = { updatedAt: 0, fetching: false };
+
+// Reads `key` from the shared query cache, fetching it when missing or stale.
+// Components showing the same key share one request and one copy of the data.
+export function useQuery<T>(key: QueryKey, fetcher: Fetcher<T>, { enabled = true, staleMs }: UseQueryOptions = {}) {
+  const hash = hashKey(key);
+  // The latest fetcher, without making it an effect dependency (callers pass inline lambdas)
+  const latestFetcher = useRef(fetcher);
+  useEffect(() => {
+    latestFetcher.current = fetcher;
+  });
+
+  // Keyed by the hash so a fresh array literal every render doesn't resubscribe
+  const subscribe = useCallback((onChange: () => void) => queryCache.subscribe(JSON.parse(hash), onChange), [hash]);
+  const state = useSyncExternalStore(subscribe, () => (queryCache.read<T>(key) ?? IDLE) as QueryState<T>);
+
+  useEffect(() => {
+    if (!enabled) return;
+    queryCache.fetch(JSON.parse(hash), latestFetcher.current, { staleMs, cancelWhenUnused: true }).catch(() => undefined);
+  }, [hash, enabled, staleMs]);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(JSON.parse(hash), latestFetcher.current, { force: true, cancelWhenUnused: true }),
+    [hash]
+  );
+
+  return {
+    data: enabled ? state.data : undefined,
+    error: enabled ? state.error : undefined,
+    // True only while there is nothing to show yet
+    loading: enabled && state.data === undefined && (state.fetching || state.updatedAt === 0) && !state.error,
+    fetching: enabled && state.fetching,
+    refetch,
+  };
+}
@@ -14,7 +14,9 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
 import "./index.css";
 import React from "react";
 import ReactDOM from "react-dom/client";
-import DemandManagementSystem from "./apex_demand_management";
+import App from "./App";
+import { loadConfiguredWorkflow } from "./workflow";
+import { createGraphGroupDirectory, GRAPH_GROUP_SCOPES, loadConfiguredRoleMapping, setGroupDirectory } from "./rbac/roleMapping";
 
 import { PublicClientApplication } from "@azure/msal-browser";
 import { MsalProvider } from "@azure/msal-react";
@@ -35,11 +37,24 @@ msalInstance.addEventCallback((e) => {
   }
 });
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <MsalProvider instance={msalInstance}>
-      <DemandManagementSystem />
-    </MsalProvider>
-  </React.StrictMode>
+// Users in too many groups for their token: read their groups from Microsoft Graph
+setGroupDirectory(
+  createGraphGroupDirectory(async () => {
+    const account = msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+    if (!account) throw new Error("Not signed in");
+    return (await msalInstance.acquireTokenSilent({ scopes: GRAPH_GROUP_SCOPES, account })).accessToken;
+  })
+);
+
+// A workflow from VITE_WORKFLOW_URL and a role mapping from VITE_ROLE_MAPPING_URL have
+// to be in place before the first render
+Promise.all([loadConfiguredWorkflow(), loadConfiguredRoleMapping()]).then(() =>
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <MsalProvider instance={msalInstance}>
+        <App />
+      </MsalProvider>
+    </React.StrictMode>
+  )
 );
 
@@ -0,0 +1,134 @@
+import type { AccessEvent, Delegation, Demand, DemandComment, DemandAudit, DemandApproval, DemandAttachment, DemandTransition } from './types';
+import { accessEventSchema, approvalSchema, attachmentSchema, auditSchema, commentSchema, delegationSchema, demandSchema, transitionSchema } from './schemas';
+import { ResponseShapeError } from './ords/errors';
+import { SchemaError, type Schema } from './utils/schema';
+
+/* ------------------------------
+ * Row normalization
+ * ------------------------------ */
+
+// ORDS hands back rows keyed however the table or handler was defined: AutoREST uses
+// lower_snake_case, custom handlers often UPPER_CASE, and older code camelCase.
+// Everything is turned into the canonical domain types on the way in and back into
+// column names on the way out, so the UI never has to guess.
+
+export type OrdsRow = Record<string, unknown>;
+
+// "currentStage", "CURRENT_STAGE" and "current_stage" all become "current_stage"
+export function toColumnName(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+// Re-keys a row by column name; when a row carries two spellings of the same
+// column, the one that already is the column name wins
+export function byColumn(row: OrdsRow): OrdsRow {
+  const out: OrdsRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    const column = toColumnName(key);
+    if (column in out && key !== column) continue;
+    out[column] = value;
+  }
+  return out;
+}
+
+// Validates a row against its schema at the API boundary, so a misconfigured handler
+// fails here with the record and field named instead of deep inside a render
+export function parseRow<T>(schema: Schema<T>, resource: string, row: unknown): T {
+  const columns = row && typeof row === 'object' && !Array.isArray(row) ? byColumn(row as OrdsRow) : row;
+  try {
+    return schema.parse(columns);
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error;
+    const id = (columns as OrdsRow | null)?.id;
+    const recordId = id === null || id === undefined || id === '' ? undefined : String(id);
+    throw new ResponseShapeError(
+      `Unexpected ${resource}${recordId ? ` ${recordId}` : ''} from the server: ${error.message}`,
+      { resource, recordId, field: error.field },
+      { cause: error }
+    );
+  }
+}
+
+// The rows of an ORDS collection: the `items` envelope or, for some handlers, a bare array
+export function parseRows<T>(schema: Schema<T>, resource: string, json: unknown): T[] {
+  const items = Array.isArray(json) ? json : (json as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new ResponseShapeError(`Expected a list of ${resource}s from the server`, { resource, field: 'items' });
+  }
+  return items.map((row) => parseRow(schema, resource, row));
+}
+
+/* ------------------------------
+ * Demands
+ * ------------------------------ */
+
+export function normalizeDemand(row: unknown): Demand {
+  return parseRow(demandSchema, 'demand', row);
+}
+
+export type ColumnCase = 'lower' | 'upper';
+
+// Column-keyed payload for ORDS. Undefined fields are left out, so a partial demand
+// serializes to just the columns it mentions.
+export function serializeDemand(demand: Partial<Demand>, columnCase: ColumnCase = 'lower'): OrdsRow {
+  const out: OrdsRow = {};
+  for (const [key, value] of Object.entries(demand)) {
+    if (value === undefined) continue;
+    const column = toColumnName(key);
+    out[columnCase === 'upper' ? column.toUpperCase() : column] = value;
+  }
+  return out;
+}
+
+/* ------------------------------
+ * Comments / Audit / Approvals / Attachments
+ * ------------------------------ */
+
+export function normalizeComment(row: unknown): DemandComment {
+  return parseRow(commentSchema, 'comment', row);
+}
+
+export function normalizeAudit(row: unknown): DemandAudit {
+  return parseRow(auditSchema, 'audit entry', row);
+}
+
+export function normalizeApproval(row: unknown): DemandApproval {
+  return parseRow(approvalSchema, 'approval', row);
+}
+
+export function normalizeAttachment(row: unknown): DemandAttachment {
+  return parseRow(attachmentSchema, 'attachment', row);
+}
+
+export function normalizeTransition(row: unknown): DemandTransition {
+  return parseRow(transitionSchema, 'transition', row);
+}
+
+/* ------------------------------
+ * Delegations
+ * ------------------------------ */
+
+export function normalizeDelegation(row: unknown): Delegation {
+  return parseRow(delegationSchema, 'delegation', row);
+}
+
+// Column-keyed, with the lists joined into their comma-separated columns
+export function serializeDelegation(delegation: Partial<Delegation>): OrdsRow {
+  const { delegatorRoles, departments, types, ...rest } = delegation;
+  const out: OrdsRow = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) out[toColumnName(key)] = value;
+  }
+  if (delegatorRoles) out.delegator_roles = delegatorRoles.join(',');
+  if (departments) out.departments = departments.join(',');
+  if (types) out.types = types.join(',');
+  return out;
+}
+
+/* ------------------------------
+ * Access log
+ * ------------------------------ */
+
+export function normalizeAccessEvent(row: unknown): AccessEvent {
+  return parseRow(accessEventSchema, 'access event', row);
+}
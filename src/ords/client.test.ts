@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { fetchDelegations, fetchTransitions, getDemand, getOrdsClient, listDemandsPage, purgeDemand, setOrdsClient, updateDemandVersion } from '../api';
+import { DEFAULT_WORKFLOW, escalationFilter } from '../workflow';
+import { createOrdsClient, type OrdsClientConfig } from './client';
+import {
+  AuthRequiredError,
+  HtmlResponseError,
+  NetworkError,
+  NotFoundError,
+  OrdsError,
+  PreconditionFailedError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+import { createMemoryTransport, type MemoryTransportOptions, type Row } from './memoryTransport';
+import type { Transport } from './transport';
+
+const DEMAND: Row = { id: 'DEM-1', title: 'Test demand', type: 'Support', priority: 'LOW', status: 'Draft', current_stage: 'Intake' };
+
+function memory(options: MemoryTransportOptions = {}) {
+  return createMemoryTransport({ basePath: '/api', tables: { demands: [{ ...DEMAND }] }, ...options });
+}
+
+function client(transport: Transport, config: Partial<OrdsClientConfig> = {}) {
+  return createOrdsClient({ baseUrl: '/api', transport, retryDelayMs: 1, ...config });
+}
+
+// Answers with each of `responses` in turn, then hands over to `next`
+function scripted(responses: (() => Response)[], next: Transport) {
+  const calls: number[] = [];
+  const transport: Transport = (url, init) => {
+    calls.push(Date.now());
+    const response = responses[calls.length - 1];
+    return response ? Promise.resolve(response()) : next(url, init);
+  };
+  return { transport, calls };
+}
+
+// The error a call fails with; a call that succeeds fails the test
+function failure<E extends OrdsError = OrdsError>(call: Promise<unknown>): Promise<E> {
+  return call.then(
+    () => {
+      throw new Error('Expected the call to fail');
+    },
+    (error: E) => error
+  );
+}
+
+const status = (code: number, headers: Record<string, string> = {}) => () =>
+  new Response(JSON.stringify({ code: 'Error', message: `status ${code}` }), { status: code, headers });
+
+describe('OrdsClient', () => {
+  it('reads rows and their ETags', async () => {
+    const { data, etag } = await client(memory()).versioned<Row>('/demands/DEM-1');
+    expect(data.title).toBe('Test demand');
+    expect(etag).toMatch(/^".+"$/);
+  });
+
+  it('times out an attempt that gets no answer', async () => {
+    const hanging: Transport = (_url, init) =>
+      new Promise((_resolve, reject) => init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+    const error = await failure<TimeoutError>(client(hanging, { timeoutMs: 20, maxRetries: 0 }).get('/demands/'));
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(20);
+  });
+
+  it('retries a GET with exponential backoff', async () => {
+    const { transport, calls } = scripted([status(503), status(502)], memory());
+    const rows = await client(transport, { retryDelayMs: 20, maxRetries: 2 }).get<{ items: Row[] }>('/demands/');
+    expect(rows.items).toHaveLength(1);
+    expect(calls).toHaveLength(3);
+    // 20 ms, then 40 ms (timers may fire a little early)
+    expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(15);
+    expect(calls[2] - calls[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  it('gives up after the last retry', async () => {
+    const { transport, calls } = scripted([status(503), status(503), status(503)], memory());
+    const error = await failure(client(transport, { maxRetries: 2 }).get('/demands/'));
+    expect(error).toBeInstanceOf(OrdsError);
+    expect(error.status).toBe(503);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry writes, nor ORDS SQL errors', async () => {
+    const post = scripted([status(503)], memory());
+    await expect(client(post.transport).post('/demands/', { title: 'x' })).rejects.toBeInstanceOf(OrdsError);
+    expect(post.calls).toHaveLength(1);
+
+    const sql = scripted([status(555)], memory());
+    await expect(client(sql.transport).get('/demands/')).rejects.toBeInstanceOf(OrdsError);
+    expect(sql.calls).toHaveLength(1);
+  });
+
+  it('waits as long as Retry-After says instead of backing off', async () => {
+    const { transport, calls } = scripted([status(429, { 'Retry-After': '0' })], memory());
+    await client(transport, { retryDelayMs: 5000 }).get('/demands/');
+    expect(calls).toHaveLength(2);
+    expect(calls[1] - calls[0]).toBeLessThan(1000);
+  });
+
+  it('retries network failures', async () => {
+    const { transport, calls } = scripted([() => { throw new TypeError('Failed to fetch'); }], memory());
+    await client(transport).get('/demands/');
+    expect(calls).toHaveLength(2);
+
+    const down: Transport = () => Promise.reject(new TypeError('Failed to fetch'));
+    await expect(client(down, { maxRetries: 1 }).get('/demands/')).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  describe('maps failures to OrdsError subclasses', () => {
+    it('404 to NotFoundError', async () => {
+      await expect(client(memory()).get('/demands/DEM-404')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('401 to AuthRequiredError', async () => {
+      const transport = memory({ authorizeWrite: () => false });
+      await expect(client(transport).post('/demands/', { title: 'x' })).rejects.toBeInstanceOf(AuthRequiredError);
+    });
+
+    it('412 to PreconditionFailedError', async () => {
+      const request = client(memory()).put('/demands/DEM-1', DEMAND, { headers: { 'If-Match': '"stale"' } });
+      await expect(request).rejects.toBeInstanceOf(PreconditionFailedError);
+    });
+
+    it('400 and ORA- constraint errors to ValidationError with the fields', async () => {
+      const badRequest = scripted([() => Response.json({ message: 'Bad', errors: [{ field: 'title', message: 'required' }] }, { status: 400 })], memory());
+      const error = await failure<ValidationError>(client(badRequest.transport).post('/demands/', {}));
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields).toEqual([{ field: 'title', message: 'required' }]);
+
+      const ora = scripted([() => Response.json({ message: 'ORA-01400: cannot insert NULL into ("ITDM"."DEMANDS"."TITLE")' }, { status: 555 })], memory());
+      const sqlError = await failure<ValidationError>(client(ora.transport).post('/demands/', {}));
+      expect(sqlError).toBeInstanceOf(ValidationError);
+      expect(sqlError.fields[0].field).toBe('title');
+    });
+
+    it('an HTML page to HtmlResponseError', async () => {
+      const html = scripted([() => new Response('<!DOCTYPE html><html><body>Bad gateway</body></html>', { status: 502 })], memory());
+      const error = await failure(client(html.transport, { maxRetries: 0 }).get('/demands/'));
+      expect(error).toBeInstanceOf(HtmlResponseError);
+      expect(error.retryable).toBe(true);
+    });
+  });
+});
+
+describe('api through an in-memory ORDS', () => {
+  const original = getOrdsClient();
+  afterEach(() => setOrdsClient(original));
+
+  it('reads a demand', async () => {
+    setOrdsClient(client(memory()));
+    expect((await getDemand('DEM-1')).title).toBe('Test demand');
+  });
+
+  it('falls back to a full PUT where PATCH is not allowed', async () => {
+    const transport = memory({ allowPatch: false });
+    setOrdsClient(client(transport, { updateMode: 'patch' }));
+    const saved = await updateDemandVersion('DEM-1', { title: 'Renamed' });
+    expect(saved.data.title).toBe('Renamed');
+    expect(transport.tables.demands[0]).toMatchObject({ title: 'Renamed', type: 'Support' });
+  });
+
+  it('refuses an update against a stale ETag', async () => {
+    setOrdsClient(client(memory()));
+    await expect(updateDemandVersion('DEM-1', { title: 'Renamed' }, { ifMatch: '"stale"' })).rejects.toBeInstanceOf(PreconditionFailedError);
+  });
+
+  it('fails a stage history read when a later page fails', async () => {
+    const transition = {
+      demand_id: 'DEM-1',
+      action: 'submit',
+      from_stage: 'Intake',
+      to_stage: 'Screening',
+      from_status: 'Draft',
+      to_status: 'Under Review',
+      actor: 'Ann Requestor',
+      acting_role: 'Demand Requestor',
+      at: new Date().toISOString(),
+    };
+    const { transport } = scripted([() => Response.json({ items: [transition], hasMore: true }), status(503)], memory());
+    setOrdsClient(client(transport, { maxRetries: 0 }));
+    await expect(fetchTransitions('DEM-1')).rejects.toBeInstanceOf(OrdsError);
+  });
+
+  it('reads every page of delegations', async () => {
+    const delegations = Array.from({ length: 1001 }, (_, i) => ({
+      id: `D-${i}`,
+      delegator: 'Bo Head',
+      delegator_id: 'oid-bo',
+      role: 'BU Head',
+      delegate: 'Sam Lee',
+      delegate_id: 'oid-sam',
+      starts_on: '2026-10-01',
+      ends_on: '2026-10-31',
+      created_at: new Date(2026, 9, 1, 0, 0, i).toISOString(),
+    }));
+    setOrdsClient(client(memory({ tables: { demands: [], delegations } })));
+    const rows = await fetchDelegations();
+    expect(rows).toHaveLength(1001);
+    expect(rows[1000].id).toBe('D-1000');
+  });
+
+  it('sends the escalation cutoff as a $date', async () => {
+    const sent: string[] = [];
+    const transport = memory();
+    setOrdsClient(
+      client((url, init) => {
+        sent.push(url);
+        return transport(url, init);
+      })
+    );
+    const where = escalationFilter(DEFAULT_WORKFLOW, 'ITPMO', new Date(2026, 9, 19, 12))!;
+    await listDemandsPage({ where });
+
+    const q = new URL(sent[0], 'http://localhost').searchParams.get('q')!;
+    const cutoff = /"stage_entered_at":\{"\$lt":\{"\$date":"([^"]+)"\}\}/.exec(q);
+    expect(cutoff, q).not.toBeNull();
+    expect(new Date(cutoff![1]).getTime()).toBe(new Date(2026, 9, 14).getTime());
+  });
+
+  it('purges with a DELETE body', async () => {
+    const transport = memory({ deleteRequiresBody: true });
+    setOrdsClient(client(transport));
+    await purgeDemand('DEM-1');
+    expect(transport.tables.demands).toHaveLength(0);
+  });
+});
@@ -0,0 +1,264 @@
+import { logger } from '../utils/logger';
+import { APP_CONFIG } from '../constants/app';
+import { fetchTransport, type Transport } from './transport';
+import { NetworkError, TimeoutError, toOrdsError } from './errors';
+
+/* ------------------------------
+ * Types
+ * ------------------------------ */
+
+export type OrdsAuth =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; getToken: () => string | undefined | Promise<string | undefined> };
+
+// How partial updates are written: PATCH with the changed columns, or a full-row PUT
+export type UpdateMode = 'patch' | 'put';
+
+export interface OrdsClientConfig {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  auth?: OrdsAuth;
+  transport?: Transport;
+  // Per-attempt timeout; defaults to APP_CONFIG.DEFAULT_API_TIMEOUT
+  timeoutMs?: number;
+  // Retries after the first attempt; defaults to APP_CONFIG.MAX_RETRIES
+  maxRetries?: number;
+  // Base delay for exponential backoff; defaults to APP_CONFIG.RETRY_DELAY
+  retryDelayMs?: number;
+  // Defaults to 'put', which every AutoREST endpoint accepts
+  updateMode?: UpdateMode;
+}
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface OrdsRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  query?: QueryParams;
+  credentials?: RequestCredentials;
+  // Serialized as JSON unless it is already a string
+  body?: unknown;
+  // Caller-owned cancellation (e.g. the demand modal closing)
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Only GET/HEAD/OPTIONS are retried by default; set to opt a request in or out
+  retry?: boolean;
+}
+
+// A resource together with the ETag ORDS sent for it (absent if ETags are disabled)
+export interface Versioned<T> {
+  data: T;
+  etag?: string;
+}
+
+export interface OrdsClient {
+  readonly baseUrl: string;
+  readonly updateMode: UpdateMode;
+  request<T>(path: string, options?: OrdsRequestOptions): Promise<T>;
+  // Like request(), but also returns the response ETag for a later If-Match
+  versioned<T>(path: string, options?: OrdsRequestOptions): Promise<Versioned<T>>;
+  get<T>(path: string, options?: Omit<OrdsRequestOptions, 'method' | 'body'>): Promise<T>;
+  post<T>(path: string, body: unknown, options?: Omit<OrdsRequestOptions, 'method' | 'body'>): Promise<T>;
+  put<T>(path: string, body: unknown, options?: Omit<OrdsRequestOptions, 'method' | 'body'>): Promise<T>;
+  delete<T = void>(path: string, options?: Omit<OrdsRequestOptions, 'method'>): Promise<T>;
+  // Unmapped access for probes that need to inspect status codes themselves
+  raw(path: string, options?: OrdsRequestOptions): Promise<Response>;
+}
+
+/* ------------------------------
+ * Helpers
+ * ------------------------------ */
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function isRetryableStatus(status: number): boolean {
+  // 555 is ORDS reporting a SQL error from the handler; retrying won't change it
+  return status === 429 || (status >= 500 && status !== 555);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function retryAfterMs(res: Response): number | undefined {
+  const header = res.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function withQuery(path: string, query?: QueryParams): string {
+  if (!query) return path;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) params.append(key, String(value));
+  }
+  const qs = params.toString();
+  if (!qs) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}${qs}`;
+}
+
+async function authHeaders(auth?: OrdsAuth): Promise<Record<string, string>> {
+  if (!auth) return {};
+  if (auth.type === 'basic') {
+    return { Authorization: `Basic ${btoa(`${auth.username}:${auth.password}`)}` };
+  }
+  const token = await auth.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/* ------------------------------
+ * Client
+ * ------------------------------ */
+
+export function createOrdsClient(config: OrdsClientConfig): OrdsClient {
+  // Ensure no trailing slash
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const transport = config.transport ?? fetchTransport;
+  const defaultTimeoutMs = config.timeoutMs ?? APP_CONFIG.DEFAULT_API_TIMEOUT;
+  const maxRetries = config.maxRetries ?? APP_CONFIG.MAX_RETRIES;
+  const retryDelayMs = config.retryDelayMs ?? APP_CONFIG.RETRY_DELAY;
+
+  // One attempt, bounded by the timeout and the caller's signal
+  async function raw(path: string, options: OrdsRequestOptions = {}): Promise<Response> {
+    const method = options.method?.toUpperCase() || "GET";
+    const hasBody = options.body !== undefined;
+    const url = `${baseUrl}${withQuery(path, options.query)}`;
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+
+    logger.debug("API Request:", {
+      method,
+      url,
+      headers: options.headers,
+      // body intentionally omitted
+    });
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) onCallerAbort();
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    let res: Response;
+    try {
+      res = await transport(url, {
+        method,
+        credentials: options.credentials,
+        signal: controller.signal,
+        headers: {
+          Accept: "application/json",
+          ...(hasBody ? { "Content-Type": "application/json" } : {}),
+          ...config.headers,
+          ...(await authHeaders(config.auth)),
+          ...options.headers,
+        },
+        body: !hasBody
+          ? undefined
+          : typeof options.body === 'string'
+          ? options.body
+          : JSON.stringify(options.body),
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeoutMs} ms: ${method} ${url}`, timeoutMs, { method, url, cause: error });
+      }
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(`Network error: ${method} ${url}`, { method, url, cause: error });
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
+    }
+
+    logger.debug("API Response:", {
+      status: res.status,
+      statusText: res.statusText,
+      url: res.url,
+    });
+
+    return res;
+  }
+
+  // Retries transient failures with exponential backoff, honouring Retry-After
+  async function send(path: string, options: OrdsRequestOptions = {}): Promise<Response> {
+    const method = options.method?.toUpperCase() || "GET";
+    const canRetry = options.retry ?? IDEMPOTENT_METHODS.includes(method);
+    const attempts = canRetry ? maxRetries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let res: Response | undefined;
+      try {
+        res = await raw(path, options);
+      } catch (error) {
+        if (isAbortError(error) || options.signal?.aborted || attempt >= attempts) throw error;
+        logger.warn(`Request failed, retrying (${attempt}/${attempts - 1}):`, { method, path });
+      }
+
+      if (res && (res.ok || !isRetryableStatus(res.status) || attempt >= attempts)) return res;
+      if (res) logger.warn(`HTTP ${res.status}, retrying (${attempt}/${attempts - 1}):`, { method, path });
+
+      const backoff = retryDelayMs * 2 ** (attempt - 1);
+      await sleep((res && retryAfterMs(res)) ?? backoff, options.signal);
+    }
+  }
+
+  async function versioned<T>(path: string, options?: OrdsRequestOptions): Promise<Versioned<T>> {
+    const res = await send(path, options);
+
+    if (!res.ok) {
+      const error = await toOrdsError(res, options?.method?.toUpperCase() || "GET", res.url || `${baseUrl}${path}`);
+      logger.error("HTTP Error:", {
+        status: res.status,
+        code: error.code,
+        requestId: error.requestId,
+      });
+      throw error;
+    }
+    const etag = res.headers.get('ETag') ?? undefined;
+    if (res.status === 204) return { data: undefined as unknown as T, etag };
+
+    const text = await res.text();
+    try {
+      return { data: JSON.parse(text) as T, etag };
+    } catch {
+      return { data: text as unknown as T, etag };
+    }
+  }
+
+  async function request<T>(path: string, options?: OrdsRequestOptions): Promise<T> {
+    return (await versioned<T>(path, options)).data;
+  }
+
+  return {
+    baseUrl,
+    updateMode: config.updateMode ?? 'put',
+    request,
+    versioned,
+    raw,
+    get: (path, options) => request(path, { ...options, method: 'GET' }),
+    post: (path, body, options) => request(path, { ...options, method: 'POST', body }),
+    put: (path, body, options) => request(path, { ...options, method: 'PUT', body }),
+    delete: (path, options) => request(path, { ...options, method: 'DELETE' }),
+  };
+}
@@ -0,0 +1,314 @@
+/* ------------------------------
+ * Error taxonomy
+ * ------------------------------ */
+
+// Everything the ORDS client throws (other than a caller's AbortError) is an
+// OrdsError subclass, so callers can branch on `instanceof` instead of parsing
+// "HTTP 4xx: ..." strings.
+
+export interface OrdsErrorDetails {
+  status?: number;
+  // ORDS error code from the response body, e.g. "NotFound"
+  code?: string;
+  // ORDS execution context id (ECID) or X-Request-Id, for correlating with server logs
+  requestId?: string;
+  method?: string;
+  url?: string;
+  cause?: unknown;
+}
+
+export class OrdsError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly method?: string;
+  readonly url?: string;
+
+  constructor(message: string, details: OrdsErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'OrdsError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.method = details.method;
+    this.url = details.url;
+  }
+
+  // Whether repeating the same request may succeed
+  get retryable(): boolean {
+    return this.status === 429 || (this.status !== undefined && this.status >= 500 && this.status !== 555);
+  }
+}
+
+export class AuthRequiredError extends OrdsError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+export class ForbiddenError extends OrdsError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends OrdsError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409, and 412 when an If-Match precondition fails
+export class ConflictError extends OrdsError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+// 412: the row changed since its ETag was read, so the write was refused
+export class PreconditionFailedError extends ConflictError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// 400/422, and ORA- constraint errors that ORDS reports as 555
+export class ValidationError extends OrdsError {
+  readonly fields: FieldError[];
+
+  constructor(message: string, fields: FieldError[], details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// A status/stage change the workflow does not allow. Raised before anything is sent,
+// so the demand is unchanged.
+export class IllegalTransitionError extends OrdsError {
+  readonly demandId?: string;
+  readonly from: { stage: string | null; status: string };
+  readonly to: { stage: string | null; status: string };
+  // The workflow action the change was taken for, when one matched
+  readonly action?: string;
+
+  constructor(
+    message: string,
+    move: { demandId?: string; from: IllegalTransitionError['from']; to: IllegalTransitionError['to']; action?: string }
+  ) {
+    super(message);
+    this.name = 'IllegalTransitionError';
+    this.demandId = move.demandId;
+    this.from = move.from;
+    this.to = move.to;
+    this.action = move.action;
+  }
+}
+
+// A move that was saved but whose stage history entry was not. The workflow guard then
+// puts the demand back as it was (`undone`); when even that fails, the move stands
+// without its history.
+export class HistoryNotRecordedError extends OrdsError {
+  readonly demandId: string;
+  readonly action: string;
+  readonly undone: boolean;
+
+  constructor(message: string, move: { demandId: string; action: string; undone: boolean; cause?: unknown }) {
+    super(message, { cause: move.cause });
+    this.name = 'HistoryNotRecordedError';
+    this.demandId = move.demandId;
+    this.action = move.action;
+    this.undone = move.undone;
+  }
+}
+
+// The proxy or ORDS answered with an HTML page (login page, gateway error, ...)
+export class HtmlResponseError extends OrdsError {
+  readonly snippet: string;
+
+  constructor(message: string, snippet: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'HtmlResponseError';
+    this.snippet = snippet;
+  }
+
+  get retryable(): boolean {
+    return this.status !== undefined && this.status >= 502 && this.status <= 504;
+  }
+}
+
+// The request never got an HTTP response
+export class NetworkError extends OrdsError {
+  constructor(message: string, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// A 2xx response whose body doesn't have the shape the app expects
+export class ResponseShapeError extends OrdsError {
+  // e.g. "demand", "comment"
+  readonly resource: string;
+  readonly recordId?: string;
+  // Offending field (column name), e.g. "status"
+  readonly field: string;
+
+  constructor(message: string, shape: { resource: string; recordId?: string; field: string }, details?: OrdsErrorDetails) {
+    super(message, details);
+    this.name = 'ResponseShapeError';
+    this.resource = shape.resource;
+    this.recordId = shape.recordId;
+    this.field = shape.field;
+  }
+}
+
+/* ------------------------------
+ * Mapping
+ * ------------------------------ */
+
+interface OrdsErrorBody {
+  code?: string;
+  message?: string;
+  error?: string;
+  title?: string;
+  cause?: string;
+  instance?: string;
+  errors?: { field?: string; name?: string; message?: string }[];
+}
+
+function looksLikeHtml(s: string) {
+  const t = s.trim().toLowerCase();
+  return t.startsWith("<!doctype") || t.startsWith("<html");
+}
+
+// ORA-01400: cannot insert NULL into ("ITDM"."DEMANDS"."TITLE")
+// ORA-12899: value too large for column "ITDM"."DEMANDS"."TITLE" (actual: 300, maximum: 200)
+function oracleFieldErrors(text: string): FieldError[] {
+  const fields: FieldError[] = [];
+  for (const m of text.matchAll(/(ORA-\d{5}):([^\n]*?)\(?"\w+"\."\w+"\."(\w+)"\)?/g)) {
+    fields.push({ field: m[3].toLowerCase(), message: `${m[1]}:${m[2]}`.trim() });
+  }
+  return fields;
+}
+
+function parseBody(text: string): OrdsErrorBody | undefined {
+  try {
+    const j = JSON.parse(text);
+    return j && typeof j === 'object' ? (j as OrdsErrorBody) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function toOrdsError(res: Response, method?: string, url?: string): Promise<OrdsError> {
+  const text = await res.text();
+  const status = res.status;
+  const base: OrdsErrorDetails = {
+    status,
+    method,
+    url,
+    requestId: res.headers.get('X-Request-Id') ?? res.headers.get('X-ORDS-Request-Id') ?? undefined,
+  };
+
+  if (looksLikeHtml(text)) {
+    const snippet = text
+      .replace(/<[^>]+>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 500);
+    const details = { ...base };
+    const message = `HTTP ${status}: Server returned HTML instead of JSON (authentication, proxy or wrong endpoint).`;
+    if (status === 401) return new AuthRequiredError(message, details);
+    if (status === 403) return new ForbiddenError(message, details);
+    return new HtmlResponseError(message, snippet, details);
+  }
+
+  const body = parseBody(text);
+  const details: OrdsErrorDetails = {
+    ...base,
+    code: body?.code,
+    requestId: base.requestId ?? body?.instance?.replace(/^tag:oracle\.com,\d+:ecid\//, ''),
+  };
+  const detail = body?.message || body?.error || body?.title || text.substring(0, 500);
+  const message = `HTTP ${status}: ${detail}`;
+
+  switch (status) {
+    case 401:
+      return new AuthRequiredError(message, details);
+    case 403:
+      return new ForbiddenError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new ConflictError(message, details);
+    case 412:
+      return new PreconditionFailedError(message, details);
+    case 400:
+    case 422: {
+      const fields = (body?.errors ?? [])
+        .map((e) => ({ field: e.field ?? e.name ?? '', message: e.message ?? '' }))
+        .filter((e) => e.field);
+      return new ValidationError(message, fields.length ? fields : oracleFieldErrors(body?.message ?? text), details);
+    }
+  }
+
+  // ORDS surfaces SQL errors as 555; constraint violations are really validation failures
+  const oraFields = status === 555 ? oracleFieldErrors(body?.message ?? text) : [];
+  if (oraFields.length) {
+    return new ValidationError(message, oraFields, details);
+  }
+  return new OrdsError(message, details);
+}
+
+/* ------------------------------
+ * UI helpers
+ * ------------------------------ */
+
+// A sentence suitable for alert()/toasts; technical details stay on the error object
+export function describeError(error: unknown): string {
+  const ref = error instanceof OrdsError && error.requestId ? ` (reference ${error.requestId})` : '';
+
+  if (error instanceof TimeoutError) return 'The server took too long to respond. Please try again.';
+  if (error instanceof NetworkError) return 'Could not reach the server. Check your connection and try again.';
+  if (error instanceof AuthRequiredError) return 'Your session has expired or you are not signed in. Please sign in again.';
+  if (error instanceof ForbiddenError) return `You do not have permission to perform this action${ref}.`;
+  if (error instanceof NotFoundError) return `The demand no longer exists; it may have been deleted${ref}.`;
+  if (error instanceof ConflictError) return `Someone else changed this demand in the meantime. Reload it and try again${ref}.`;
+  if (error instanceof ValidationError) {
+    const fields = error.fields.map((f) => `- ${f.field}: ${f.message}`).join('\n');
+    return fields ? `Some fields were rejected by the server:\n${fields}` : `The server rejected the request${ref}: ${error.message}`;
+  }
+  if (error instanceof IllegalTransitionError) return error.message;
+  if (error instanceof HistoryNotRecordedError) return error.message;
+  if (error instanceof ResponseShapeError) {
+    const record = error.recordId ? ` ${error.recordId}` : '';
+    return `The server sent ${error.resource}${record} with an unexpected "${error.field}" value. The ORDS handler may be misconfigured.`;
+  }
+  if (error instanceof HtmlResponseError) return `The server returned an unexpected page instead of data${ref}. The API proxy may be misconfigured.`;
+  if (error instanceof OrdsError) return `The server reported an error${ref}: ${error.message}`;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,204 @@
+import type { Transport } from './transport';
+import { matchesFilter, sortByOrderBy } from './query';
+import { contentEtag } from '../utils/etag';
+
+/* ------------------------------
+ * In-memory ORDS
+ * ------------------------------ */
+
+// A small stand-in for ORDS AutoREST, used in place of the `/api` proxy in tests.
+// It understands collection/item URLs, the `items` list envelope, `limit`/`offset`,
+// `q=` filters (see ./query), item ETags with If-Match, and the nested
+// comments/audit/approvals/attachments resources. The quirk options reproduce how a
+// real ORDS install can differ; the mock server (mock/ordsServer.ts) turns them on.
+
+export type Row = Record<string, unknown>;
+
+export interface MemoryTransportOptions {
+  // Path prefix the client is configured with (e.g. "/api"); stripped before routing
+  basePath?: string;
+  tables?: Record<string, Row[]>;
+  // Answer PATCH on items (default); when false it gets 405, like plain AutoREST
+  allowPatch?: boolean;
+  // Key response rows by UPPER_CASE column name, as handlers over legacy tables do.
+  // Request bodies are matched to columns case-insensitively either way.
+  upperCaseColumns?: boolean;
+  // Add AutoREST's `links` metadata to rows and lists
+  links?: boolean;
+  // Refuse a DELETE that has no JSON body (400), as some ORDS versions do
+  deleteRequiresBody?: boolean;
+  // Decides whether a write may go ahead; refused writes get 401
+  authorizeWrite?: (authorization: string | null) => boolean;
+}
+
+export interface MemoryTransport extends Transport {
+  tables: Record<string, Row[]>;
+}
+
+// Aliases the app uses for the same table
+const TABLE_ALIASES: Record<string, string> = {
+  xxitdm_demands: 'demands',
+  xxitdm_comments: 'comments',
+  xxitdm_audit: 'audit',
+  xxitdm_approvals: 'approvals',
+  xxitdm_delegations: 'delegations',
+  xxitdm_transitions: 'transitions',
+  xxitdm_access_log: 'access_log',
+};
+
+const NESTED = ['comments', 'audit', 'approvals', 'attachments'];
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function preconditionFailed(init: RequestInit, row: Row): Response | undefined {
+  const ifMatch = new Headers(init.headers).get('If-Match');
+  if (!ifMatch || ifMatch === '*' || ifMatch === contentEtag(row)) return undefined;
+  return json(412, { code: 'PreconditionFailed', message: 'The resource has been modified since it was retrieved' });
+}
+
+// Column names are case-insensitive in the database; rows are stored lower_case
+function toColumns(body: Row): Row {
+  return Object.fromEntries(Object.entries(body).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function notFound(path: string): Response {
+  return json(404, { code: 'NotFound', message: `Resource not found: ${path}` });
+}
+
+export function createMemoryTransport(options: MemoryTransportOptions = {}): MemoryTransport {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const tables: Record<string, Row[]> = { demands: [], comments: [], audit: [], approvals: [], attachments: [], delegations: [], transitions: [], access_log: [] };
+  for (const [name, rows] of Object.entries(options.tables ?? {})) {
+    tables[TABLE_ALIASES[name] ?? name] = rows.map(toColumns);
+  }
+  let sequence = 0;
+
+  // A stored row as the client sees it
+  function present(row: Row, href?: string): Row {
+    const out = options.upperCaseColumns
+      ? Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toUpperCase(), value]))
+      : { ...row };
+    if (options.links && href) out.links = [{ rel: 'self', href }];
+    return out;
+  }
+
+  function nextId(table: string): string {
+    sequence += 1;
+    return table === 'demands'
+      ? `DEM-${new Date().getFullYear()}-${String(sequence).padStart(3, '0')}`
+      : String(sequence);
+  }
+
+  function itemHref(url: URL, id: unknown): string {
+    return `${url.origin}${url.pathname.replace(/\/?$/, '/')}${encodeURIComponent(String(id))}`;
+  }
+
+  function list(table: string, url: URL, scope: Row = {}): Response {
+    const limit = Number(url.searchParams.get('limit') ?? 25);
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    const q = url.searchParams.get('q');
+    const filter: Row = { ...(q ? (JSON.parse(q) as Row) : {}), ...scope };
+    const all = sortByOrderBy((tables[table] ?? []).filter((r) => matchesFilter(r, filter)), filter);
+    const items = all.slice(offset, offset + limit).map((r) => present(r, itemHref(url, r.id)));
+    const links = options.links ? { links: [{ rel: 'self', href: url.href }] } : {};
+    return json(200, { items, hasMore: offset + limit < all.length, limit, offset, count: items.length, ...links });
+  }
+
+  async function readBody(init: RequestInit): Promise<Row> {
+    if (typeof init.body !== 'string' || !init.body) return {};
+    const row = toColumns(JSON.parse(init.body) as Row);
+    // Metadata echoed back from a GET, not a column
+    delete row.links;
+    return row;
+  }
+
+  const transport = (async (input: string, init: RequestInit) => {
+    const url = new URL(input, 'http://memory.local');
+    const method = (init.method ?? 'GET').toUpperCase();
+    let path = url.pathname;
+    if (basePath && path.startsWith(basePath)) path = path.slice(basePath.length);
+
+    const [rawTable, id, nested, nestedId] = path.split('/').filter(Boolean).map(decodeURIComponent);
+    const table = TABLE_ALIASES[rawTable] ?? rawTable;
+    if (!table || !(table in tables)) return notFound(path);
+
+    const headers = new Headers(init.headers);
+    if (method !== 'GET' && options.authorizeWrite && !options.authorizeWrite(headers.get('Authorization'))) {
+      return json(401, { code: 'Unauthorized', message: 'Unauthorized' }, { 'WWW-Authenticate': 'Basic realm="ORDS"' });
+    }
+    if (method === 'DELETE' && options.deleteRequiresBody && !init.body) {
+      return json(400, { code: 'BadRequest', message: 'The request body is missing or is not valid JSON' });
+    }
+
+    // /demands/{id}/comments etc.
+    if (id && nested) {
+      if (table !== 'demands' || !NESTED.includes(nested)) return notFound(path);
+      if (nestedId) {
+        const index = tables[nested].findIndex((r) => String(r.id) === nestedId && String(r.demand_id) === id);
+        if (index < 0) return notFound(path);
+        if (method === 'GET') return json(200, present(tables[nested][index], url.href));
+        if (method === 'DELETE') {
+          tables[nested].splice(index, 1);
+          return json(200, { rowsDeleted: 1 });
+        }
+        return json(405, { code: 'MethodNotAllowed', message: `${method} not allowed on ${path}` });
+      }
+      if (method === 'GET') return list(nested, url, { demand_id: id });
+      if (method === 'POST') {
+        const row: Row = { ...(await readBody(init)), id: nextId(nested), demand_id: id, created_at: new Date().toISOString() };
+        tables[nested].push(row);
+        return json(201, present(row, itemHref(url, row.id)));
+      }
+      return json(405, { code: 'MethodNotAllowed', message: `${method} not allowed on ${path}` });
+    }
+
+    const rows = tables[table];
+    if (!id) {
+      if (method === 'GET') return list(table, url);
+      if (method === 'POST') {
+        const body = await readBody(init);
+        const row: Row = { id: nextId(table), created_date: new Date().toISOString(), ...body };
+        rows.push(row);
+        return json(201, present(row, itemHref(url, row.id)));
+      }
+      return json(405, { code: 'MethodNotAllowed', message: `${method} not allowed on ${path}` });
+    }
+
+    const index = rows.findIndex((r) => String(r.id) === id);
+    if (index < 0) return notFound(path);
+
+    switch (method) {
+      case 'GET':
+        return json(200, present(rows[index], url.href), { ETag: contentEtag(rows[index]) });
+      case 'PUT': {
+        const stale = preconditionFailed(init, rows[index]);
+        if (stale) return stale;
+        // AutoREST PUT replaces the whole row
+        rows[index] = { ...(await readBody(init)), id: rows[index].id };
+        return json(200, present(rows[index], url.href), { ETag: contentEtag(rows[index]) });
+      }
+      case 'PATCH': {
+        if (options.allowPatch === false) break;
+        const stale = preconditionFailed(init, rows[index]);
+        if (stale) return stale;
+        rows[index] = { ...rows[index], ...(await readBody(init)), id: rows[index].id };
+        return json(200, present(rows[index], url.href), { ETag: contentEtag(rows[index]) });
+      }
+      case 'DELETE': {
+        const stale = preconditionFailed(init, rows[index]);
+        if (stale) return stale;
+        rows.splice(index, 1);
+        return json(200, { rowsDeleted: 1 });
+      }
+    }
+    return json(405, { code: 'MethodNotAllowed', message: `${method} not allowed on ${path}` });
+  }) as MemoryTransport;
+
+  transport.tables = tables;
+  return transport;
+}
@@ -0,0 +1,207 @@
+/* ------------------------------
+ * ORDS filter (q=) builder
+ * ------------------------------ */
+
+// Typed construction of the ORDS AutoREST filter object, e.g.
+//   buildQuery<Demand>(
+//     { status: inList("Submitted", "Under Review"), $or: [{ title: instr("CRM") }, { id: eq("DEM-2024-001") }] },
+//     { created_date: "desc" }
+//   )
+// Keys are checked against the row type and values against the column type. The
+// result is a JSON string for the `q` query parameter; the client URL-encodes it.
+
+type Primitive = string | number | boolean;
+
+// Date columns may be compared with Date objects; they are sent as {"$date": ISO}
+export type Operand<V> = NonNullable<V> | (NonNullable<V> extends string ? Date : never);
+
+export type Comparison<V> =
+  | { $eq: Operand<V> | null }
+  | { $ne: Operand<V> | null }
+  | { $lt: Operand<V> }
+  | { $lte: Operand<V> }
+  | { $gt: Operand<V> }
+  | { $gte: Operand<V> }
+  | { $like: string }
+  | { $instr: string }
+  | { $between: [Operand<V>, Operand<V>] }
+  | { $in: Operand<V>[] }
+  | { $null: null }
+  | { $notnull: null };
+
+export type Condition<V> = Operand<V> | Comparison<V>;
+
+export type Filter<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends Primitive ? Condition<T[K]> : never;
+} & {
+  $and?: Filter<T>[];
+  $or?: Filter<T>[];
+};
+
+export type OrderBy<T> = Partial<Record<Extract<keyof T, string>, 'asc' | 'desc'>>;
+
+// Logical column name for a field when it differs (e.g. camelCase aliases)
+export type ColumnMap<T> = Partial<Record<keyof T, string>>;
+
+/* ------------------------------
+ * Operators
+ * ------------------------------ */
+
+export const eq = <V>(value: Operand<V> | null) => ({ $eq: value });
+export const ne = <V>(value: Operand<V> | null) => ({ $ne: value });
+export const lt = <V>(value: Operand<V>) => ({ $lt: value });
+export const lte = <V>(value: Operand<V>) => ({ $lte: value });
+export const gt = <V>(value: Operand<V>) => ({ $gt: value });
+export const gte = <V>(value: Operand<V>) => ({ $gte: value });
+export const like = (pattern: string) => ({ $like: pattern });
+export const instr = (text: string) => ({ $instr: text });
+export const between = <V>(from: Operand<V>, to: Operand<V>) => ({ $between: [from, to] as [Operand<V>, Operand<V>] });
+export const inList = <V>(...values: Operand<V>[]) => ({ $in: values });
+export const isNull = () => ({ $null: null });
+export const isNotNull = () => ({ $notnull: null });
+
+export function and<T>(...filters: (Filter<T> | undefined)[]): Filter<T> {
+  const parts = filters.filter((f): f is Filter<T> => !!f && Object.keys(f).length > 0);
+  if (parts.length <= 1) return parts[0] ?? {};
+  return { $and: parts } as Filter<T>;
+}
+
+export function or<T>(...filters: Filter<T>[]): Filter<T> {
+  return { $or: filters } as Filter<T>;
+}
+
+// Escapes % and _ so user text can be embedded in a $like pattern
+export function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/* ------------------------------
+ * Serialization
+ * ------------------------------ */
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(serializeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serializeValue(v)]));
+  }
+  return value;
+}
+
+function serializeFilter<T>(filter: Filter<T>, columns: ColumnMap<T>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    if (key === '$and' || key === '$or') {
+      out[key] = (value as Filter<T>[]).map((f) => serializeFilter(f, columns));
+    } else {
+      out[columns[key as keyof T] ?? key] = serializeValue(value);
+    }
+  }
+  return out;
+}
+
+// The q= object, for callers that need to inspect or extend it
+export function toOrdsFilter<T>(filter: Filter<T> = {}, orderBy?: OrderBy<T>, columns: ColumnMap<T> = {}): Record<string, unknown> {
+  const q = serializeFilter(filter, columns);
+  if (orderBy && Object.keys(orderBy).length) {
+    q.$orderby = Object.fromEntries(
+      Object.entries(orderBy).map(([field, direction]) => [columns[field as keyof T] ?? field, direction])
+    );
+  }
+  return q;
+}
+
+// JSON for the `q` parameter, or undefined when there is nothing to filter on
+export function buildQuery<T>(filter: Filter<T> = {}, orderBy?: OrderBy<T>, columns: ColumnMap<T> = {}): string | undefined {
+  const q = toOrdsFilter(filter, orderBy, columns);
+  return Object.keys(q).length ? JSON.stringify(q) : undefined;
+}
+
+/* ------------------------------
+ * Evaluation
+ * ------------------------------ */
+
+// Applies a serialized q= object to plain rows, the way ORDS would. Used by the
+// in-memory transport and local backends so they honour the same filters.
+
+type Row = Record<string, unknown>;
+
+function operand(value: unknown): unknown {
+  if (value && typeof value === 'object' && '$date' in value) return (value as { $date: string }).$date;
+  return value;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const da = typeof a === 'string' ? Date.parse(a) : NaN;
+  const db = typeof b === 'string' ? Date.parse(b) : NaN;
+  if (!Number.isNaN(da) && !Number.isNaN(db) && /^\d{4}-/.test(String(a)) && /^\d{4}-/.test(String(b))) return da - db;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\' && i + 1 < pattern.length) source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (c === '%') source += '.*';
+    else if (c === '_') source += '.';
+    else source += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function isEmpty(v: unknown) {
+  return v === null || v === undefined || v === '';
+}
+
+function matchesCondition(actual: unknown, condition: unknown): boolean {
+  if (!condition || typeof condition !== 'object' || '$date' in condition) {
+    const expected = operand(condition);
+    return isEmpty(expected) ? isEmpty(actual) : compare(actual, expected) === 0 && !isEmpty(actual);
+  }
+  return Object.entries(condition as Row).every(([op, raw]) => {
+    const v = Array.isArray(raw) ? raw.map(operand) : operand(raw);
+    switch (op) {
+      case '$eq': return matchesCondition(actual, v);
+      case '$ne': return !matchesCondition(actual, v);
+      case '$lt': return !isEmpty(actual) && compare(actual, v) < 0;
+      case '$lte': return !isEmpty(actual) && compare(actual, v) <= 0;
+      case '$gt': return !isEmpty(actual) && compare(actual, v) > 0;
+      case '$gte': return !isEmpty(actual) && compare(actual, v) >= 0;
+      case '$like': return !isEmpty(actual) && likeToRegExp(String(v)).test(String(actual));
+      case '$instr': return !isEmpty(actual) && String(actual).includes(String(v));
+      case '$between': {
+        const [from, to] = v as unknown[];
+        return !isEmpty(actual) && compare(actual, from) >= 0 && compare(actual, to) <= 0;
+      }
+      case '$in': return (v as unknown[]).some((x) => matchesCondition(actual, x));
+      case '$null': return isEmpty(actual);
+      case '$notnull': return !isEmpty(actual);
+      default: return true;
+    }
+  });
+}
+
+export function matchesFilter(row: Row, q: Row): boolean {
+  return Object.entries(q).every(([key, condition]) => {
+    if (key === '$orderby') return true;
+    if (key === '$and') return (condition as Row[]).every((f) => matchesFilter(row, f));
+    if (key === '$or') return (condition as Row[]).some((f) => matchesFilter(row, f));
+    return matchesCondition(row[key], condition);
+  });
+}
+
+export function sortByOrderBy<R extends Row>(rows: R[], q: Row): R[] {
+  const orderBy = q.$orderby as Record<string, string> | undefined;
+  if (!orderBy) return rows;
+  const keys = Object.entries(orderBy);
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of keys) {
+      const c = compare(a[key], b[key]);
+      if (c !== 0) return direction.toLowerCase() === 'desc' ? -c : c;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,9 @@
+/* ------------------------------
+ * Transport
+ * ------------------------------ */
+
+// A transport is anything with the shape of `fetch`. The default one goes to the
+// network (through the Vite `/api` proxy in dev); tests swap in an in-memory one.
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
@@ -1,86 +1,102 @@
-import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { createContext, useContext, useMemo, useState, type ReactNode } from 'react';
 import { useAADUser } from '../hooks/useAADUser';
-import { UserContext, Role, Permission } from './types';
+import { useQuery } from '../hooks/useQuery';
+import { getRepository } from '../repository';
+import type { Filter } from '../ords/query';
+import type { Demand } from '../types';
+import type { UserContext, Role, Permission } from './types';
 import { hasPermission, hasAnyPermission, hasAllPermissions } from './permissions';
+import { accessFilter, isAllowed, type DemandAction } from './policy';
+import { hasGroupOverage, mapClaimsToRoles, resolveRoles, userDepartment } from './roleMapping';
 
+// `roles` is what the app goes by: the roles verified by AAD, or while an Admin views
+// the app as another role, that role alone. Viewing as is for looking only; the app
+// makes no changes as the viewed role.
 interface RBACContextType extends UserContext {
+  // From the AAD token, whatever the user is viewing as
+  verifiedRoles: Role[];
+  // The role an Admin is viewing the app as; null normally
+  viewingAs: Role | null;
+  // Admins only; every start and stop is written to the access log before it applies
+  viewAs: (role: Role | null) => Promise<void>;
   hasPermission: (permission: Permission) => boolean;
   hasAnyPermission: (permissions: Permission[]) => boolean;
   hasAllPermissions: (permissions: Permission[]) => boolean;
-  canAccessDemand: (demand: any) => boolean;
-  canModifyDemand: (demand: any) => boolean;
+  // What the access policy (policy.ts) lets the user do with the demand
+  can: (action: DemandAction, demand: Partial<Demand>) => boolean;
+  // The same, as the `where` of a list query; undefined when it covers every demand
+  scope: (action: DemandAction) => Filter<Demand> | undefined;
+  canAccessDemand: (demand: Partial<Demand>) => boolean;
+  canModifyDemand: (demand: Partial<Demand>) => boolean;
 }
 
 const RBACContext = createContext<RBACContextType | null>(null);
 
-// Map AAD roles to application roles - customize based on your AAD setup
-function mapAADRolesToAppRoles(aadUser: any): Role[] {
-  const roles: Role[] = [];
-  
-  // Example mapping - adjust based on your AAD role configuration
-  if (aadUser?.roles?.includes('DemandRequestor') || !aadUser?.roles?.length) {
-    roles.push('Demand Requestor');
-  }
-  if (aadUser?.roles?.includes('BUHead')) {
-    roles.push('BU Head');
-  }
-  if (aadUser?.roles?.includes('ITPMO')) {
-    roles.push('ITPMO');
-  }
-  if (aadUser?.roles?.includes('DBR')) {
-    roles.push('DBR');
-  }
-  if (aadUser?.roles?.includes('Admin')) {
-    roles.push('Admin');
-  }
+const ROLES: Role[] = ['Demand Requestor', 'BU Head', 'ITPMO', 'DBR', 'Admin'];
+
+// Local development without AAD: VITE_DEV_ROLES, e.g. "BU Head,ITPMO", and
+// VITE_DEV_DEPARTMENT. Never in a production build.
+function devRoles(): Role[] {
+  if (!import.meta.env.DEV) return [];
+  const value = String(import.meta.env.VITE_DEV_ROLES ?? '');
+  return ROLES.filter((role) => value.split(',').map((r) => r.trim()).includes(role));
+}
 
-  // Fallback: if no roles mapped, assign default role
-  return roles.length > 0 ? roles : ['Demand Requestor'];
+function devDepartment(): string | undefined {
+  return (import.meta.env.DEV && import.meta.env.VITE_DEV_DEPARTMENT) || undefined;
 }
 
 export function RBACProvider({ children }: { children: ReactNode }) {
   const aadUser = useAADUser();
-  
+  const [viewingAs, setViewingAs] = useState<Role | null>(null);
+  // Roles come from the token's claims (see roleMapping.ts); when it has too many
+  // groups to carry them, membership is looked up and the user has no roles till then
+  const overage = aadUser.isAuthenticated && hasGroupOverage(aadUser.claims);
+  const overageRoles = useQuery(['aad-roles', String(aadUser.claims.oid ?? aadUser.email)], () => resolveRoles(aadUser.claims), {
+    enabled: overage,
+  });
+
   const userContext = useMemo<RBACContextType>(() => {
-    const roles = aadUser.isAuthenticated ? mapAADRolesToAppRoles(aadUser) : [];
-    
+    const verifiedRoles = !aadUser.isAuthenticated
+      ? devRoles()
+      : overage
+        ? (overageRoles.data ?? [])
+        : mapClaimsToRoles(aadUser.claims);
+    const isAdmin = verifiedRoles.includes('Admin');
+    const viewed = isAdmin ? viewingAs : null;
+    const roles = viewed ? [viewed] : verifiedRoles;
+    const name = aadUser.name || 'Unknown User';
+    // The AAD object id stays the same when the user's name or email changes
+    const oid = typeof aadUser.claims.oid === 'string' ? aadUser.claims.oid : '';
+    const department = aadUser.isAuthenticated ? userDepartment(aadUser.claims) : devDepartment();
+    const user = { id: oid || aadUser.email || 'anonymous', name, roles, department };
+
     const context: RBACContextType = {
-      id: aadUser.email || 'anonymous',
-      name: aadUser.name || 'Unknown User',
+      ...user,
       email: aadUser.email || '',
-      roles,
+      verifiedRoles,
+      viewingAs: viewed,
       isAuthenticated: aadUser.isAuthenticated,
+      viewAs: async (role: Role | null) => {
+        if (!isAdmin) throw new Error('Only administrators can view the app as another role.');
+        if (role === viewed) return;
+        const who = aadUser.email ? `${name} <${aadUser.email}>` : name;
+        const repository = getRepository();
+        if (viewed) await repository.addAccessEvent({ who, action: 'view-as-end', role: viewed });
+        if (role) await repository.addAccessEvent({ who, action: 'view-as-start', role });
+        setViewingAs(role);
+      },
       hasPermission: (permission: Permission) => hasPermission(roles, permission),
       hasAnyPermission: (permissions: Permission[]) => hasAnyPermission(roles, permissions),
       hasAllPermissions: (permissions: Permission[]) => hasAllPermissions(roles, permissions),
-      canAccessDemand: (demand: any) => {
-        // Admin can access all
-        if (hasPermission(roles, 'admin.system')) return true;
-        
-        // Users can access their own demands
-        if (demand.requestor === context.name || demand.requestor === context.email) return true;
-        
-        // Approvers can access demands in their approval queue
-        if (hasPermission(roles, 'demand.approve')) return true;
-        
-        return false;
-      },
-      canModifyDemand: (demand: any) => {
-        // Admin can modify all
-        if (hasPermission(roles, 'admin.system')) return true;
-        
-        // Users can modify their own draft demands
-        if ((demand.requestor === context.name || demand.requestor === context.email) && 
-            demand.status === 'Draft') {
-          return hasPermission(roles, 'demand.update');
-        }
-        
-        return false;
-      }
+      can: (action: DemandAction, demand: Partial<Demand>) => isAllowed(user, demand, action),
+      scope: (action: DemandAction) => accessFilter(user, action),
+      canAccessDemand: (demand: Partial<Demand>) => isAllowed(user, demand, 'view'),
+      canModifyDemand: (demand: Partial<Demand>) => isAllowed(user, demand, 'edit'),
     };
 
     return context;
-  }, [aadUser]);
+  }, [aadUser, viewingAs, overage, overageRoles.data]);
 
   return (
     <RBACContext.Provider value={userContext}>
@@ -95,4 +111,4 @@ export function useRBAC(): RBACContextType {
     throw new Error('useRBAC must be used within RBACProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { Role, Permission, RolePermissions } from './types';
+import type { Role, Permission, RolePermissions } from './types';
 
 export const ROLE_PERMISSIONS: RolePermissions[] = [
   {
@@ -89,4 +89,9 @@ export function hasAnyPermission(userRoles: Role[], permissions: Permission[]):
 
 export function hasAllPermissions(userRoles: Role[], permissions: Permission[]): boolean {
   return permissions.every(permission => hasPermission(userRoles, permission));
-}
\ No newline at end of file
+}
+
+// The role that inherits `role`: where overdue work escalates to. null at the top.
+export function nextRoleUp(role: Role): Role | null {
+  return ROLE_PERMISSIONS.find(r => r.inherits?.includes(role))?.role ?? null;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { matchesFilter, toOrdsFilter } from '../ords/query';
+import { DEFAULT_WORKFLOW } from '../workflow/definition';
+import type { Demand } from '../types';
+import { accessFilter, allowingRule, DEMAND_ACTIONS, isAllowed, isOwner, type AccessRule, type PolicyUser } from './policy';
+import type { Role } from './types';
+
+const options = { definition: DEFAULT_WORKFLOW };
+
+function user(roles: Role[], rest: Partial<PolicyUser> = {}): PolicyUser {
+  return { id: 'oid-ann', name: 'Ann Requestor', roles, department: 'Finance', ...rest };
+}
+
+function demand(stage: string, rest: Partial<Demand> = {}): Partial<Demand> {
+  const owner = { requestor: 'Ann Requestor', requestor_id: 'oid-ann' };
+  return { id: 'DEM-1', status: 'Under Review', current_stage: stage, department: 'Finance', ...owner, ...rest };
+}
+
+describe('owner', () => {
+  const requestor = user(['Demand Requestor']);
+
+  it('is matched by user id, whatever the names say', () => {
+    expect(isOwner({ ...requestor, name: 'Ann Married-Name' }, demand('Screening'))).toBe(true);
+    expect(isOwner({ ...requestor, id: 'oid-other-ann' }, demand('Screening'))).toBe(false);
+  });
+
+  it('falls back to the name on demands saved without an id', () => {
+    expect(isOwner(requestor, demand('Screening', { requestor_id: undefined }))).toBe(true);
+    expect(isOwner({ ...requestor, name: 'Someone Else' }, demand('Screening', { requestor_id: undefined }))).toBe(false);
+  });
+
+  it('lets requestors see their own demands and edit them only as drafts', () => {
+    expect(isAllowed(requestor, demand('Screening'), 'view', options)).toBe(true);
+    expect(isAllowed(requestor, demand('Screening', { requestor_id: 'oid-bob' }), 'view', options)).toBe(false);
+    expect(isAllowed(requestor, demand('Intake', { status: 'Draft' }), 'edit', options)).toBe(true);
+    expect(isAllowed(requestor, demand('Screening'), 'edit', options)).toBe(false);
+  });
+
+  it('lets them edit a demand sent back for more information', () => {
+    expect(isAllowed(requestor, demand('Screening', { status: 'Info Requested' }), 'edit', options)).toBe(true);
+    expect(isAllowed(requestor, demand('Screening', { status: 'Info Requested', requestor_id: 'oid-bob' }), 'edit', options)).toBe(false);
+  });
+
+  it('lets them delete their own drafts and nothing else', () => {
+    expect(isAllowed(requestor, demand('Intake', { status: 'Draft' }), 'delete', options)).toBe(true);
+    expect(isAllowed(requestor, demand('Intake', { status: 'Draft', requestor_id: 'oid-bob' }), 'delete', options)).toBe(false);
+    expect(isAllowed(requestor, demand('Screening'), 'delete', options)).toBe(false);
+    expect(isAllowed(user(['Admin']), demand('Intake', { status: 'Draft', requestor_id: 'oid-bob' }), 'delete', options)).toBe(true);
+  });
+});
+
+describe('sameDepartment', () => {
+  const buHead = user(['BU Head'], { id: 'oid-bo', name: 'Bo Head' });
+
+  it('lets a BU Head sign off their own department only', () => {
+    expect(allowingRule(buHead, demand('Screening'), 'approve', options)?.id).toBe('bu-head');
+    expect(isAllowed(buHead, demand('Screening', { department: 'Legal' }), 'approve', options)).toBe(false);
+  });
+
+  it('allows nothing when the user has no department', () => {
+    expect(isAllowed({ ...buHead, department: undefined }, demand('Screening'), 'view', options)).toBe(false);
+  });
+});
+
+describe('pastStage', () => {
+  const itpmo = user(['ITPMO'], { id: 'oid-pat', name: 'Pat PMO', department: 'IT' });
+  const dbr = user(['DBR'], { id: 'oid-dee', name: 'Dee Board', department: 'IT' });
+
+  it('opens demands only once they have moved past the stage', () => {
+    expect(isAllowed(itpmo, demand('Screening'), 'view', options)).toBe(false);
+    expect(isAllowed(itpmo, demand('Assessment'), 'view', options)).toBe(true);
+    expect(isAllowed(dbr, demand('Evaluation'), 'view', options)).toBe(false);
+    expect(isAllowed(dbr, demand('Authorization'), 'approve', options)).toBe(true);
+  });
+
+  it('still only signs off demands in review', () => {
+    expect(isAllowed(itpmo, demand('Assessment', { status: 'Approved' }), 'approve', options)).toBe(false);
+  });
+});
+
+describe('accessFilter', () => {
+  // Every stage and status, from two departments, by Ann, by Bob and by Ann before ids were kept
+  const stages = [...DEFAULT_WORKFLOW.stages.map((s) => s.key), undefined];
+  const statuses = ['Draft', 'Submitted', 'Under Review', 'Info Requested', 'Approved', 'Rejected'] as const;
+  const owners = [{}, { requestor: 'Bob', requestor_id: 'oid-bob' }, { requestor_id: undefined }];
+  const rows = stages
+    .flatMap((stage) =>
+      statuses.flatMap((status) =>
+        ['Finance', 'Legal'].flatMap((department) => owners.map((owner) => demand(stage as string, { status, department, ...owner })))
+      )
+    )
+    .map((row, i) => ({ ...row, id: `DEM-${i}` }));
+  const users = [
+    user(['Demand Requestor']),
+    user(['BU Head']),
+    user(['BU Head'], { department: undefined }),
+    user(['ITPMO', 'DBR'], { department: 'IT' }),
+    user(['Admin']),
+    user([]),
+  ];
+
+  it.each(users.flatMap((u) => DEMAND_ACTIONS.map((action) => [u.roles.join('+') || 'no role', u.department ?? 'none', action, u] as const)))(
+    'matches the demands isAllowed allows (%s, department %s, %s)',
+    (_roles, _department, action, u) => {
+      const q = toOrdsFilter(accessFilter(u, action, options));
+      const matched = rows.filter((row) => matchesFilter(row, q)).map((row) => row.id);
+      expect(matched).toEqual(rows.filter((row) => isAllowed(u, row, action, options)).map((row) => row.id));
+    }
+  );
+
+  it('leaves an Admin unfiltered and matches nothing for a user no rule covers', () => {
+    expect(accessFilter(user(['Admin']), 'view', options)).toBeUndefined();
+    expect(rows.some((row) => matchesFilter(row, toOrdsFilter(accessFilter(user(['BU Head'], { department: undefined }), 'approve', options))))).toBe(false);
+  });
+
+  it('asks the database for the department and stages, not the rows', () => {
+    expect(toOrdsFilter(accessFilter(user(['BU Head']), 'approve', options))).toEqual({
+      $and: [{ status: { $in: DEFAULT_WORKFLOW.reviewStatuses } }, { department: 'Finance' }],
+    });
+  });
+
+  it('turns conditions on demand fields into the filter too', () => {
+    const big: AccessRule = {
+      id: 'big',
+      description: 'ITPMO edits the big demands',
+      roles: ['ITPMO'],
+      actions: ['edit'],
+      owner: false,
+      sameDepartment: false,
+      pastStage: null,
+      statuses: [],
+      when: [{ field: 'estimated_cost', op: 'gte', value: 100000, message: null }],
+    };
+    const q = toOrdsFilter(accessFilter(user(['ITPMO']), 'edit', { ...options, policy: [big] }));
+    expect(q).toEqual({ estimated_cost: { $gte: 100000 } });
+    expect(matchesFilter(demand('Screening', { estimated_cost: 250000 }), q)).toBe(true);
+    expect(matchesFilter(demand('Screening', { estimated_cost: 5000 }), q)).toBe(false);
+  });
+});
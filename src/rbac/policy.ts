@@ -0,0 +1,163 @@
+import { and, inList, isNotNull, isNull, or, type Filter } from '../ords/query';
+import type { Demand, DemandStatus } from '../types';
+import { getWorkflow } from '../workflow/config';
+import { meetsCondition, stageIndex } from '../workflow/engine';
+import type { WorkflowCondition, WorkflowDefinition } from '../workflow/types';
+import type { Role, UserContext } from './types';
+
+/* ------------------------------
+ * Demand access policy
+ * ------------------------------ */
+
+// Who may do what with a demand, beyond what their roles permit in general: rules
+// combine the user's roles, their department and whether the demand is their own
+// with the demand's stage, status and fields. Nothing is allowed unless a rule
+// allows it. Like the workflow, a policy is data. accessFilter turns it into the ORDS
+// filter that lists ask for, so the database returns only what the user may see.
+
+export const DEMAND_ACTIONS = ['view', 'edit', 'delete', 'approve'] as const;
+
+export type DemandAction = (typeof DEMAND_ACTIONS)[number];
+
+export interface AccessRule {
+  id: string;
+  description: string;
+  // The user has one of these; empty for anyone signed in
+  roles: Role[];
+  actions: DemandAction[];
+  // Each test below that is set must pass. The demand is the user's own (see isOwner):
+  owner: boolean;
+  // The demand is from the user's department
+  sameDepartment: boolean;
+  // The demand has moved on past this stage of the workflow
+  pastStage: string | null;
+  // Empty for any status
+  statuses: DemandStatus[];
+  when: WorkflowCondition[];
+}
+
+export type PolicyUser = Pick<UserContext, 'id' | 'name' | 'roles' | 'department'>;
+
+function rule(
+  id: string,
+  description: string,
+  roles: Role[],
+  actions: DemandAction[],
+  rest: Partial<Pick<AccessRule, 'owner' | 'sameDepartment' | 'pastStage' | 'statuses' | 'when'>> = {}
+): AccessRule {
+  return { id, description, roles, actions, owner: false, sameDepartment: false, pastStage: null, statuses: [], when: [], ...rest };
+}
+
+export const DEFAULT_ACCESS_POLICY: AccessRule[] = [
+  rule('admin', 'Admins can do anything', ['Admin'], ['view', 'edit', 'delete', 'approve']),
+  rule('own', 'Requestors see their own demands', [], ['view'], { owner: true }),
+  rule('own-draft', 'Requestors edit their own drafts, and what was sent back to them', [], ['edit'], {
+    owner: true,
+    statuses: ['Draft', 'Info Requested'],
+  }),
+  rule('own-draft-delete', 'Requestors move their own drafts to the trash', [], ['delete'], { owner: true, statuses: ['Draft'] }),
+  rule('bu-head', 'BU Heads see and sign off demands from their own BU', ['BU Head'], ['view', 'approve'], { sameDepartment: true }),
+  rule('itpmo', 'ITPMO sees and signs off everything past Screening', ['ITPMO'], ['view', 'approve'], { pastStage: 'Screening' }),
+  rule('dbr', 'The Demand Board sees and signs off everything past Evaluation', ['DBR'], ['view', 'approve'], { pastStage: 'Evaluation' }),
+];
+
+// By the requestor's user id. Demands saved before it was recorded fall back to the name.
+export function isOwner(user: PolicyUser, demand: Partial<Demand>): boolean {
+  if (demand.requestor_id) return demand.requestor_id === user.id;
+  return !!demand.requestor && demand.requestor === user.name;
+}
+
+function isPast(definition: WorkflowDefinition, demand: Partial<Demand>, key: string): boolean {
+  const limit = stageIndex(definition, key);
+  return limit >= 0 && stageIndex(definition, demand.current_stage) > limit;
+}
+
+export function ruleApplies(
+  rule: AccessRule,
+  user: PolicyUser,
+  demand: Partial<Demand>,
+  action: DemandAction,
+  definition: WorkflowDefinition = getWorkflow()
+): boolean {
+  return (
+    rule.actions.includes(action) &&
+    (rule.roles.length === 0 || rule.roles.some((r) => user.roles.includes(r))) &&
+    (!rule.owner || isOwner(user, demand)) &&
+    (!rule.sameDepartment || (!!user.department && user.department === demand.department)) &&
+    (rule.pastStage === null || isPast(definition, demand, rule.pastStage)) &&
+    (rule.statuses.length === 0 || (demand.status !== undefined && rule.statuses.includes(demand.status))) &&
+    rule.when.every((c) => meetsCondition(c, demand))
+  );
+}
+
+// The first rule that allows the action; undefined when none does. Only a demand in
+// review can be signed off, whatever the rules say.
+export function allowingRule(
+  user: PolicyUser,
+  demand: Partial<Demand>,
+  action: DemandAction,
+  { policy = DEFAULT_ACCESS_POLICY, definition = getWorkflow() }: { policy?: AccessRule[]; definition?: WorkflowDefinition } = {}
+): AccessRule | undefined {
+  if (action === 'approve' && !(demand.status !== undefined && definition.reviewStatuses.includes(demand.status))) return undefined;
+  return policy.find((r) => ruleApplies(r, user, demand, action, definition));
+}
+
+export function isAllowed(
+  user: PolicyUser,
+  demand: Partial<Demand>,
+  action: DemandAction,
+  options?: { policy?: AccessRule[]; definition?: WorkflowDefinition }
+): boolean {
+  return allowingRule(user, demand, action, options) !== undefined;
+}
+
+/* ------------------------------
+ * As an ORDS filter
+ * ------------------------------ */
+
+// Every demand has an id, so this matches none
+const NOTHING: Filter<Demand> = { id: isNull() };
+
+// A rule's `when`, as meetsCondition checks it. Which column it names is only known
+// at run time, hence the cast.
+function conditionFilter({ field, op, value }: WorkflowCondition): Filter<Demand> {
+  const condition =
+    op === 'present'
+      ? isNotNull()
+      : op === 'equals'
+        ? value
+        : op === 'in'
+          ? { $in: Array.isArray(value) ? value : [value] }
+          : { [`$${op}`]: Number(value) };
+  return { [field]: condition } as Filter<Demand>;
+}
+
+// The demands `rule` covers for `user`, as ruleApplies has it; {} for all of them
+function ruleFilter(rule: AccessRule, user: PolicyUser, definition: WorkflowDefinition): Filter<Demand> {
+  const parts: Filter<Demand>[] = [];
+  if (rule.owner) parts.push(or<Demand>({ requestor_id: user.id }, { requestor_id: isNull(), requestor: user.name }));
+  if (rule.sameDepartment) parts.push(user.department ? { department: user.department } : NOTHING);
+  if (rule.pastStage !== null) {
+    const limit = stageIndex(definition, rule.pastStage);
+    const later = limit < 0 ? [] : definition.stages.slice(limit + 1).map((s) => s.key);
+    parts.push(later.length ? { current_stage: inList(...later) } : NOTHING);
+  }
+  if (rule.statuses.length) parts.push({ status: inList(...rule.statuses) });
+  parts.push(...rule.when.map(conditionFilter));
+  return and(...parts);
+}
+
+// The demands the policy lets `user` do `action` with, for the `where` of a list
+// query; undefined when that is every demand. Agrees with isAllowed row by row.
+export function accessFilter(
+  user: PolicyUser,
+  action: DemandAction,
+  { policy = DEFAULT_ACCESS_POLICY, definition = getWorkflow() }: { policy?: AccessRule[]; definition?: WorkflowDefinition } = {}
+): Filter<Demand> | undefined {
+  const rules = policy.filter((r) => r.actions.includes(action) && (r.roles.length === 0 || r.roles.some((role) => user.roles.includes(role))));
+  const covered = rules.map((r) => ruleFilter(r, user, definition));
+  if (covered.length === 0) return NOTHING;
+  const inReview: Filter<Demand> | undefined = action === 'approve' ? { status: inList(...definition.reviewStatuses) } : undefined;
+  if (covered.some((f) => Object.keys(f).length === 0)) return inReview;
+  return and(inReview, covered.length === 1 ? covered[0] : or(...covered));
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_ROLE_MAPPING,
+  getRoleMapping,
+  getRoleMappingError,
+  hasGroupOverage,
+  loadConfiguredRoleMapping,
+  mapClaimsToRoles,
+  NO_ROLE_MAPPING,
+  parseRoleMapping,
+  resolveRoles,
+  RoleMappingError,
+  setRoleMapping,
+  userDepartment,
+  type GroupDirectory,
+} from './roleMapping';
+
+// Claims as they come in an ID token, with made-up values
+
+const FINANCE_APPROVERS = '7d1c2f3a-0000-4000-8000-000000000001';
+const PMO = '7d1c2f3a-0000-4000-8000-000000000002';
+
+const TENANT = parseRoleMapping({
+  roles: { 'Demand.Approver.BU': 'BU Head', 'Demand.Admin': ['Admin'] },
+  groups: { [FINANCE_APPROVERS]: 'BU Head', [PMO]: ['ITPMO', 'DBR'] },
+  departmentClaim: 'extn.department',
+});
+
+const OVERAGE = { oid: 'u-1', _claim_names: { groups: 'src1' }, _claim_sources: { src1: { endpoint: 'https://graph.windows.net/…' } } };
+
+function directory(groups: string[]): GroupDirectory & { calls: number } {
+  return {
+    calls: 0,
+    async memberGroups() {
+      this.calls++;
+      return groups;
+    },
+  };
+}
+
+describe('mapClaimsToRoles', () => {
+  it('maps app roles by the default names', () => {
+    expect(mapClaimsToRoles({ roles: ['BUHead', 'Admin'] }, DEFAULT_ROLE_MAPPING)).toEqual(['BU Head', 'Admin']);
+  });
+
+  it('maps app roles by the names a tenant uses', () => {
+    expect(mapClaimsToRoles({ roles: ['Demand.Approver.BU', 'Something.Else'] }, TENANT)).toEqual(['BU Head']);
+  });
+
+  it('maps group object IDs', () => {
+    expect(mapClaimsToRoles({ groups: [PMO, 'unrelated-group'] }, TENANT)).toEqual(['ITPMO', 'DBR']);
+  });
+
+  it('combines roles and groups, once each, in role order', () => {
+    expect(mapClaimsToRoles({ roles: ['Demand.Admin', 'Demand.Approver.BU'], groups: [FINANCE_APPROVERS, PMO] }, TENANT)).toEqual([
+      'BU Head',
+      'ITPMO',
+      'DBR',
+      'Admin',
+    ]);
+  });
+
+  it('gives the default roles when nothing maps', () => {
+    expect(mapClaimsToRoles({}, DEFAULT_ROLE_MAPPING)).toEqual(['Demand Requestor']);
+    expect(mapClaimsToRoles({ roles: ['BUHead'] }, TENANT)).toEqual([]);
+  });
+
+  it('reads the department from the configured claim', () => {
+    expect(userDepartment({ 'extn.department': ' Finance ' }, TENANT)).toBe('Finance');
+    expect(userDepartment({ department: 'Finance' }, TENANT)).toBeUndefined();
+  });
+});
+
+describe('group overage', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('is recognised from _claim_names or hasgroups', () => {
+    expect(hasGroupOverage(OVERAGE)).toBe(true);
+    expect(hasGroupOverage({ hasgroups: true })).toBe(true);
+    expect(hasGroupOverage({ groups: [PMO] })).toBe(false);
+  });
+
+  it('reads membership from the directory', async () => {
+    const lookup = directory([PMO]);
+    expect(await resolveRoles(OVERAGE, { mapping: TENANT, directory: lookup })).toEqual(['ITPMO', 'DBR']);
+    expect(lookup.calls).toBe(1);
+  });
+
+  it('does not ask the directory when the token has the groups', async () => {
+    const lookup = directory([PMO]);
+    expect(await resolveRoles({ groups: [FINANCE_APPROVERS] }, { mapping: TENANT, directory: lookup })).toEqual(['BU Head']);
+    expect(lookup.calls).toBe(0);
+  });
+
+  it('maps without groups when the lookup fails or there is no directory', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing: GroupDirectory = { memberGroups: () => Promise.reject(new Error('403')) };
+    const claims = { ...OVERAGE, roles: ['Demand.Approver.BU'] };
+    expect(await resolveRoles(claims, { mapping: TENANT, directory: failing })).toEqual(['BU Head']);
+    expect(await resolveRoles(OVERAGE, { mapping: TENANT, directory: null })).toEqual([]);
+  });
+});
+
+describe('parseRoleMapping', () => {
+  it('refuses unknown roles', () => {
+    expect(() => parseRoleMapping({ roles: { Boss: 'Chief' } })).toThrow(RoleMappingError);
+  });
+
+  it('fills in what is left out', () => {
+    expect(parseRoleMapping({})).toEqual({ roles: {}, groups: {}, defaultRoles: [], departmentClaim: 'department' });
+  });
+});
+
+describe('loadConfiguredRoleMapping', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    setRoleMapping(DEFAULT_ROLE_MAPPING);
+  });
+
+  it('uses the mapping file', async () => {
+    vi.stubEnv('VITE_ROLE_MAPPING_URL', '/role-mapping.json');
+    vi.stubGlobal('fetch', async () => Response.json({ roles: { 'Demand.Admin': 'Admin' } }));
+    await loadConfiguredRoleMapping();
+    expect(mapClaimsToRoles({ roles: ['Demand.Admin'] })).toEqual(['Admin']);
+    expect(getRoleMappingError()).toBeNull();
+  });
+
+  it('gives nobody a role when the file cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('VITE_ROLE_MAPPING_URL', '/role-mapping.json');
+    vi.stubGlobal('fetch', async () => new Response('Not found', { status: 404 }));
+    await loadConfiguredRoleMapping();
+    expect(getRoleMapping()).toBe(NO_ROLE_MAPPING);
+    expect(mapClaimsToRoles({ roles: ['Admin', 'BUHead'] })).toEqual([]);
+    expect(mapClaimsToRoles({})).toEqual([]);
+    expect(getRoleMappingError()?.message).toMatch(/HTTP 404/);
+  });
+
+  it('refuses a broken file the same way', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('VITE_ROLE_MAPPING_URL', '/role-mapping.json');
+    vi.stubGlobal('fetch', async () => Response.json({ roles: { Admin: 'Superuser' } }));
+    await loadConfiguredRoleMapping();
+    expect(getRoleMapping()).toBe(NO_ROLE_MAPPING);
+    expect(getRoleMappingError()).toBeInstanceOf(RoleMappingError);
+  });
+});
@@ -0,0 +1,234 @@
+import { array, object, SchemaError, string, withDefault, type Schema } from '../utils/schema';
+import { ROLE_PERMISSIONS } from './permissions';
+import type { Role } from './types';
+
+/* ------------------------------
+ * AAD claims to application roles
+ * ------------------------------ */
+
+// Which roles a signed-in user has comes from their ID token: the app roles assigned to
+// them (`roles` claim) and the security groups they are in (`groups` claim, object
+// IDs). A mapping says which claim values and which groups give which application
+// roles; tenants and environments name their app roles differently, so it is loaded
+// from configuration like the workflow is. The functions here take the claims as a
+// plain object, so any set of claims can be tried against a mapping.
+
+export type AADClaims = Record<string, unknown>;
+
+export interface RoleMapping {
+  // `roles` claim value -> application roles
+  roles: Record<string, Role[]>;
+  // Group object ID -> application roles
+  groups: Record<string, Role[]>;
+  // For a signed-in user nothing maps; [] leaves them without access
+  defaultRoles: Role[];
+  // Claim carrying the user's department, which scopes what some roles see (policy.ts).
+  // Not in tokens by default: add it as an optional claim or with a claims mapping policy.
+  departmentClaim: string;
+}
+
+// The app role names the app registration has always used
+export const DEFAULT_ROLE_MAPPING: RoleMapping = {
+  roles: {
+    DemandRequestor: ['Demand Requestor'],
+    BUHead: ['BU Head'],
+    ITPMO: ['ITPMO'],
+    DBR: ['DBR'],
+    Admin: ['Admin'],
+  },
+  groups: {},
+  defaultRoles: ['Demand Requestor'],
+  departmentClaim: 'department',
+};
+
+// Gives nobody a role: what applies when this environment's mapping cannot be loaded,
+// so a broken file locks users out instead of letting everyone in
+export const NO_ROLE_MAPPING: RoleMapping = { roles: {}, groups: {}, defaultRoles: [], departmentClaim: 'department' };
+
+export class RoleMappingError extends Error {
+  constructor(message: string) {
+    super(`Invalid role mapping: ${message}`);
+    this.name = 'RoleMappingError';
+  }
+}
+
+const role = (): Schema<Role> => ({
+  expected: `one of ${ROLE_PERMISSIONS.map((r) => r.role).join(', ')}`,
+  parse(value, field = '') {
+    if (!ROLE_PERMISSIONS.some((r) => r.role === value)) throw new SchemaError(field, this.expected, value);
+    return value as Role;
+  },
+});
+
+// A role or a list of them
+const roles = (): Schema<Role[]> => ({
+  expected: 'a role or a list of roles',
+  parse(value, field = '') {
+    return Array.isArray(value) ? array(role()).parse(value, field) : [role().parse(value, field)];
+  },
+});
+
+const roleMap = (): Schema<Record<string, Role[]>> => ({
+  expected: 'an object of claim values to roles',
+  parse(value, field = '') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(field, this.expected, value);
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, roles().parse(v, `${field}.${key}`)]));
+  },
+});
+
+const roleMappingSchema = object({
+  roles: withDefault(roleMap(), () => ({})),
+  groups: withDefault(roleMap(), () => ({})),
+  defaultRoles: withDefault(array(role()), () => []),
+  departmentClaim: withDefault(string(), 'department'),
+});
+
+export function parseRoleMapping(json: unknown): RoleMapping {
+  try {
+    return roleMappingSchema.parse(json, 'mapping');
+  } catch (error) {
+    if (error instanceof SchemaError) throw new RoleMappingError(error.message);
+    throw error;
+  }
+}
+
+/* ------------------------------
+ * Mapping claims
+ * ------------------------------ */
+
+function claimValues(claims: AADClaims, name: string): string[] {
+  const value = claims[name];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+// Too many groups to fit in the token: AAD leaves the `groups` claim out and points
+// to where they can be read instead (`_claim_names`, or `hasgroups` in implicit flow)
+export function hasGroupOverage(claims: AADClaims): boolean {
+  const names = claims._claim_names;
+  return (typeof names === 'object' && names !== null && 'groups' in names) || claims.hasgroups === true;
+}
+
+// The roles the claims give, in ROLE_PERMISSIONS order. `groups` stands in for the
+// `groups` claim, e.g. with the membership read from the directory on overage.
+export function mapClaimsToRoles(
+  claims: AADClaims,
+  mapping: RoleMapping = getRoleMapping(),
+  groups: string[] = claimValues(claims, 'groups')
+): Role[] {
+  const granted = new Set<Role>([
+    ...claimValues(claims, 'roles').flatMap((value) => mapping.roles[value] ?? []),
+    ...groups.flatMap((id) => mapping.groups[id] ?? []),
+  ]);
+  const mapped = ROLE_PERMISSIONS.map((r) => r.role).filter((r) => granted.has(r));
+  return mapped.length > 0 ? mapped : [...mapping.defaultRoles];
+}
+
+// From the claim the mapping names; undefined when the token does not carry it
+export function userDepartment(claims: AADClaims, mapping: RoleMapping = getRoleMapping()): string | undefined {
+  const value = claims[mapping.departmentClaim];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/* ------------------------------
+ * Group overage
+ * ------------------------------ */
+
+// Where group membership is read from when the token has too many groups to carry
+export interface GroupDirectory {
+  // Object IDs of the groups the signed-in user is in, directly or not
+  memberGroups(claims: AADClaims): Promise<string[]>;
+}
+
+// Delegated permission the Graph directory needs; it takes admin consent
+export const GRAPH_GROUP_SCOPES = ['https://graph.microsoft.com/GroupMember.Read.All'];
+
+// Reads the signed-in user's groups from Microsoft Graph with a token for GRAPH_GROUP_SCOPES
+export function createGraphGroupDirectory(getAccessToken: () => Promise<string>): GroupDirectory {
+  return {
+    async memberGroups() {
+      const headers = { Accept: 'application/json', Authorization: `Bearer ${await getAccessToken()}` };
+      const ids: string[] = [];
+      let url: string | undefined = 'https://graph.microsoft.com/v1.0/me/transitiveMemberOf/microsoft.graph.group?$select=id&$top=999';
+      while (url) {
+        const response = await fetch(url, { headers });
+        if (!response.ok) throw new Error(`Could not read group membership from Microsoft Graph: HTTP ${response.status}`);
+        const page = (await response.json()) as { value?: { id: string }[]; '@odata.nextLink'?: string };
+        ids.push(...(page.value ?? []).map((g) => g.id));
+        url = page['@odata.nextLink'];
+      }
+      return ids;
+    },
+  };
+}
+
+// The user's roles, looking group membership up in `directory` on overage. Without a
+// directory, or when the lookup fails, groups give no roles and the other claims still do.
+export async function resolveRoles(
+  claims: AADClaims,
+  { mapping = getRoleMapping(), directory = getGroupDirectory() }: { mapping?: RoleMapping; directory?: GroupDirectory | null } = {}
+): Promise<Role[]> {
+  if (!hasGroupOverage(claims)) return mapClaimsToRoles(claims, mapping);
+  let groups: string[] = [];
+  if (!directory) {
+    console.warn('The token has too many groups to carry and no group directory is set; mapping without groups');
+  } else {
+    try {
+      groups = await directory.memberGroups(claims);
+    } catch (error) {
+      console.error('Mapping without groups:', error);
+    }
+  }
+  return mapClaimsToRoles(claims, mapping, groups);
+}
+
+/* ------------------------------
+ * Current mapping
+ * ------------------------------ */
+
+let mapping: RoleMapping = DEFAULT_ROLE_MAPPING;
+let directory: GroupDirectory | null = null;
+let loadError: Error | null = null;
+
+export function setRoleMapping(next: RoleMapping): void {
+  mapping = next;
+}
+
+export function getRoleMapping(): RoleMapping {
+  return mapping;
+}
+
+export function setGroupDirectory(next: GroupDirectory | null): void {
+  directory = next;
+}
+
+export function getGroupDirectory(): GroupDirectory | null {
+  return directory;
+}
+
+export async function loadRoleMapping(url: string, signal?: AbortSignal): Promise<RoleMapping> {
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`Could not load the role mapping from ${url}: HTTP ${response.status}`);
+  return parseRoleMapping(await response.json());
+}
+
+// Why the configured mapping could not be loaded; null when it was (or none is configured)
+export function getRoleMappingError(): Error | null {
+  return loadError;
+}
+
+// VITE_ROLE_MAPPING_URL points at a mapping file for this environment; without it the
+// default mapping stays in place. If it is set but cannot be loaded, NO_ROLE_MAPPING
+// applies and getRoleMappingError() says why.
+export async function loadConfiguredRoleMapping(): Promise<RoleMapping> {
+  const url = import.meta.env.VITE_ROLE_MAPPING_URL;
+  if (!url) return mapping;
+  try {
+    setRoleMapping(await loadRoleMapping(url));
+    loadError = null;
+  } catch (error) {
+    console.error('No one has a role until the role mapping loads:', error);
+    setRoleMapping(NO_ROLE_MAPPING);
+    loadError = error instanceof Error ? error : new Error(String(error));
+  }
+  return mapping;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ForbiddenError, HistoryNotRecordedError } from '../ords/errors';
+import { DEFAULT_WORKFLOW, planTransition } from '../workflow';
+import type { Demand } from '../types';
+import { withWorkflowGuard } from './guardedRepository';
+import { createLocalRepository } from './localRepository';
+import { createMemoryStore } from './localStore';
+import { TABLE_NAMES, type LocalTables } from './tables';
+import type { DemandRepository } from './types';
+
+const EMPTY = (): LocalTables => Object.fromEntries(TABLE_NAMES.map((name) => [name, []])) as unknown as LocalTables;
+
+const FORM: Partial<Demand> = {
+  title: 'Test demand',
+  type: 'Strategic',
+  priority: 'HIGH',
+  description: 'Everything a stage asks for',
+  requestor: 'Ann Requestor',
+  department: 'Finance',
+  estimated_cost: 250000,
+  business_justification: 'Needed',
+};
+
+const requestor = { name: 'Ann Requestor', role: 'Demand Requestor' as const };
+const buHead = { name: 'Bo Head', role: 'BU Head' as const };
+
+// The local backend, with the stage history write failing while `failing.history` is set
+function setup() {
+  const failing = { history: false };
+  const local = createLocalRepository(createMemoryStore(), { seed: EMPTY });
+  const backend: DemandRepository = {
+    ...local,
+    addTransition: (demandId, transition) =>
+      failing.history ? Promise.reject(new Error('transitions table is down')) : local.addTransition(demandId, transition),
+  };
+  return { local, failing, repository: withWorkflowGuard(backend, () => DEFAULT_WORKFLOW) };
+}
+
+async function submitted(repository: DemandRepository): Promise<Demand> {
+  const plan = planTransition(DEFAULT_WORKFLOW, { ...FORM, status: 'Draft', current_stage: 'Intake' } as Demand, 'submit')!;
+  return repository.createDemand({ ...FORM, ...plan.patch }, { actor: requestor });
+}
+
+describe('withWorkflowGuard stage history', () => {
+  it('records each move', async () => {
+    const { local, repository } = setup();
+    const demand = await submitted(repository);
+    const plan = planTransition(DEFAULT_WORKFLOW, demand, 'approve')!;
+    await repository.updateDemand(demand.id, plan.patch, { actor: buHead, comment: 'Fine' });
+
+    const history = await local.listTransitions(demand.id);
+    expect(history.map((t) => [t.action, t.fromStage, t.toStage])).toEqual([
+      ['submit', 'Intake', 'Screening'],
+      ['approve', 'Screening', 'Assessment'],
+    ]);
+    expect(history[1]).toMatchObject({ actor: 'Bo Head', actingRole: 'BU Head', comment: 'Fine' });
+  });
+
+  it('undoes a move whose history cannot be saved, and says so', async () => {
+    const { local, failing, repository } = setup();
+    const demand = await submitted(repository);
+    const plan = planTransition(DEFAULT_WORKFLOW, demand, 'approve')!;
+
+    failing.history = true;
+    const error = await repository.updateDemand(demand.id, plan.patch, { actor: buHead }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HistoryNotRecordedError);
+    expect(error).toMatchObject({ demandId: demand.id, action: 'approve', undone: true });
+
+    const { data } = await local.getDemand(demand.id);
+    expect(data).toMatchObject({ status: demand.status, current_stage: 'Screening', stage_entered_at: demand.stage_entered_at });
+    expect(await local.listTransitions(demand.id)).toHaveLength(1);
+  });
+
+  it('leaves a submission whose history cannot be saved as a draft', async () => {
+    const { local, failing, repository } = setup();
+    failing.history = true;
+    const error = await submitted(repository).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HistoryNotRecordedError);
+
+    const [draft] = (await local.listDemands()).items;
+    expect(draft).toMatchObject({ status: 'Draft', current_stage: 'Intake' });
+    expect((error as HistoryNotRecordedError).demandId).toBe(draft.id);
+  });
+});
+
+describe('withWorkflowGuard delegations', () => {
+  const handover = {
+    delegator: 'Bo Head',
+    delegatorId: 'oid-bo',
+    role: 'BU Head' as const,
+    delegatorRoles: [],
+    delegate: 'Sam Lee',
+    delegateId: 'oid-sam',
+    startsOn: '2026-10-19',
+    endsOn: '2026-10-23',
+    departments: [],
+    types: [],
+  };
+
+  it('saves them with the grantor\'s verified roles', async () => {
+    const { repository } = setup();
+    const saved = await repository.addDelegation(handover, { grantor: { id: 'oid-bo', roles: ['Demand Requestor', 'BU Head'] } });
+    expect(saved.delegatorRoles).toEqual(['Demand Requestor', 'BU Head']);
+  });
+
+  it('refuses a role the grantor does not hold, or a grantor who is not the delegator', async () => {
+    const { local, repository } = setup();
+    await expect(repository.addDelegation(handover, { grantor: { id: 'oid-bo', roles: ['Demand Requestor'] } })).rejects.toThrow(ForbiddenError);
+    await expect(repository.addDelegation(handover, { grantor: { id: 'oid-sam', roles: ['BU Head'] } })).rejects.toThrow(ForbiddenError);
+    await expect(repository.addDelegation(handover)).rejects.toThrow(ForbiddenError);
+    expect(await local.listDelegations()).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { CallOptions } from '../api';
+import { HistoryNotRecordedError } from '../ords/errors';
+import {
+  checkDelegation,
+  checkNewDemand,
+  checkTransition,
+  checkVote,
+  currentVotes,
+  getWorkflow,
+  stageEnteredAt,
+  stageFor,
+  touchesWorkflow,
+  type WorkflowAction,
+  type WorkflowActor,
+  type WorkflowDefinition,
+} from '../workflow';
+import type { Demand, DemandApproval } from '../types';
+import type { DemandRepository } from './types';
+
+// Any backend, with every status/stage change checked against the workflow before it is
+// sent and stamped with stage_entered_at for the SLA clocks. Checking costs one extra GET
+// for the current version, plus the votes and stage history at a stage where a board
+// votes, and the delegations when someone acts for another approver. Each move that goes
+// through is appended to the demand's stage history; a move whose entry cannot be saved
+// is undone and fails with HistoryNotRecordedError. A new delegation is saved with the
+// grantor's verified roles, and only for one of them.
+export function withWorkflowGuard(
+  repository: DemandRepository,
+  workflow: () => WorkflowDefinition = getWorkflow
+): DemandRepository {
+  async function votesAt(demandId: string, key: string, options: CallOptions): Promise<DemandApproval[]> {
+    const [approvals, history] = await Promise.all([repository.listApprovals(demandId, options), repository.listTransitions(demandId, options)]);
+    return currentVotes(approvals, key, stageEnteredAt(history, key));
+  }
+
+  async function record(from: Partial<Demand>, to: Demand, action: WorkflowAction, actor: WorkflowActor, comment?: string | null) {
+    const definition = workflow();
+    await repository.addTransition(to.id, {
+      action,
+      fromStage: from.current_stage ?? definition.initialStage,
+      toStage: to.current_stage ?? definition.initialStage,
+      fromStatus: from.status ?? definition.initialStatus,
+      toStatus: to.status,
+      actor: actor.name,
+      actingRole: actor.role,
+      onBehalfOf: actor.onBehalfOf ?? null,
+      comment: comment ?? null,
+    });
+  }
+
+  // A move is only kept with its history entry. The entry is not retried (a POST that
+  // timed out may still have been saved); the demand is put back with `undo` instead.
+  async function failUnrecorded(error: unknown, demandId: string, action: WorkflowAction, undo: () => Promise<unknown>, message: string): Promise<never> {
+    try {
+      await undo();
+    } catch (undoError) {
+      console.error(`Could not undo ${action} on ${demandId} after its stage history failed to save:`, undoError);
+      throw new HistoryNotRecordedError(
+        `${demandId} was changed, but its stage history could not be saved and the change could not be undone. Please tell an administrator.`,
+        { demandId, action, undone: false, cause: error }
+      );
+    }
+    throw new HistoryNotRecordedError(message, { demandId, action, undone: true, cause: error });
+  }
+
+  return {
+    ...repository,
+
+    async createDemand(form, options = {}) {
+      const definition = workflow();
+      checkNewDemand(definition, form);
+      const created = await repository.createDemand({ ...form, stage_entered_at: form.stage_entered_at ?? new Date().toISOString() }, options);
+      if (created.status !== definition.initialStatus || (created.current_stage ?? definition.initialStage) !== definition.initialStage) {
+        // Only the requestor submits a demand of their own
+        const actor = options.actor ?? { name: created.requestor ?? 'unknown', role: 'Demand Requestor' };
+        try {
+          await record({}, created, 'submit', actor);
+        } catch (error) {
+          await failUnrecorded(
+            error,
+            created.id,
+            'submit',
+            () => repository.updateDemand(created.id, { status: definition.initialStatus, current_stage: definition.initialStage, progress: 0 }),
+            `${created.id} was saved as a draft but not submitted: its stage history could not be saved. Please submit it again.`
+          );
+        }
+      }
+      return created;
+    },
+
+    async updateDemand(id, patch, options = {}) {
+      if (touchesWorkflow(patch)) {
+        const definition = workflow();
+        const { data } = await repository.getDemand(id, { signal: options.signal });
+        const stage = stageFor(definition, data.current_stage);
+        const votes = stage?.quorum ? await votesAt(id, stage.key, { signal: options.signal }) : [];
+        const delegations = options.actor?.onBehalfOf ? await repository.listDelegations({ signal: options.signal }) : [];
+        const plan = checkTransition(definition, data, patch, options.actor, { votes, delegations });
+        if (plan && options.actor) {
+          const saved = await repository.updateDemand(id, { ...patch, stage_entered_at: new Date().toISOString() }, options);
+          try {
+            await record(data, saved.data, plan.transition.action, options.actor, options.comment);
+          } catch (error) {
+            const before = { status: data.status, current_stage: data.current_stage, progress: data.progress ?? 0, stage_entered_at: data.stage_entered_at };
+            await failUnrecorded(
+              error,
+              id,
+              plan.transition.action,
+              () => repository.updateDemand(id, before, { ifMatch: saved.etag }),
+              `${id} was not moved: its stage history could not be saved. Please try again.`
+            );
+          }
+          return saved;
+        }
+      }
+      return repository.updateDemand(id, patch, options);
+    },
+
+    async addApproval(demandId, decision) {
+      if (decision.onBehalfOf) {
+        const [{ data }, delegations] = await Promise.all([repository.getDemand(demandId), repository.listDelegations()]);
+        checkVote(delegations, data, decision);
+      }
+      return repository.addApproval(demandId, decision);
+    },
+
+    async addDelegation(delegation, options = {}) {
+      const { grantor } = options;
+      checkDelegation(delegation, grantor);
+      return repository.addDelegation({ ...delegation, delegatorRoles: grantor.roles }, options);
+    },
+  };
+}
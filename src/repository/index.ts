@@ -0,0 +1,67 @@
+import { APP_CONFIG } from '../constants/app';
+import type { CallOptions, DemandPageRequest } from '../api';
+import type { Demand } from '../types';
+import { createLocalRepository } from './localRepository';
+import { createIndexedDbStore, createMemoryStore } from './localStore';
+import { createOrdsRepository } from './ordsRepository';
+import { withWorkflowGuard } from './guardedRepository';
+import type { Backend, DemandRepository } from './types';
+
+export type { Backend, DemandRepository, DemandUpdateOptions } from './types';
+export type { LocalStore } from './localStore';
+export type { LocalTables } from './tables';
+export { createLocalRepository } from './localRepository';
+export { createIndexedDbStore, createMemoryStore } from './localStore';
+export { createOrdsRepository } from './ordsRepository';
+export { withWorkflowGuard } from './guardedRepository';
+export { seedTables } from './seed';
+
+/* ------------------------------
+ * Backend selection
+ * ------------------------------ */
+
+function createBackend(backend: Backend): DemandRepository {
+  switch (backend) {
+    case 'memory':
+      return createLocalRepository(createMemoryStore(), { backend });
+    case 'indexeddb':
+      return createLocalRepository(createIndexedDbStore(), { backend });
+    default:
+      return createOrdsRepository();
+  }
+}
+
+// Whichever backend, status/stage changes go through the workflow guard
+export function createRepository(backend: Backend): DemandRepository {
+  return withWorkflowGuard(createBackend(backend));
+}
+
+// VITE_BACKEND picks where data lives: "ords" (default), "memory" or "indexeddb"
+function configuredBackend(): Backend {
+  const value = import.meta.env.VITE_BACKEND;
+  return value === 'memory' || value === 'indexeddb' ? value : 'ords';
+}
+
+let repository: DemandRepository = createRepository(configuredBackend());
+
+// The app reads and writes through the current repository; tests swap in a local one
+export function setRepository(next: DemandRepository): void {
+  repository = next;
+}
+
+export function getRepository(): DemandRepository {
+  return repository;
+}
+
+// Every matching demand, following `hasMore` so nothing is cut off at MAX_API_LIMIT
+export async function listAllDemands(
+  request: Omit<DemandPageRequest, 'offset' | 'limit'> = {},
+  options: CallOptions = {}
+): Promise<Demand[]> {
+  const rows: Demand[] = [];
+  for (let offset = 0; ; offset += APP_CONFIG.MAX_API_LIMIT) {
+    const page = await repository.listDemands({ ...request, offset, limit: APP_CONFIG.MAX_API_LIMIT }, options);
+    rows.push(...page.items);
+    if (!page.hasMore || page.items.length === 0) return rows;
+  }
+}
@@ -0,0 +1,253 @@
+import { diffDemand, toDemandQuery, toNewDemand, type CallOptions, type DemandPageRequest, type UpdateOptions } from '../api';
+import { NotFoundError, PreconditionFailedError } from '../ords/errors';
+import { matchesFilter, sortByOrderBy } from '../ords/query';
+import {
+  byColumn,
+  normalizeAccessEvent,
+  normalizeApproval,
+  normalizeAttachment,
+  normalizeAudit,
+  normalizeComment,
+  normalizeDelegation,
+  normalizeDemand,
+  normalizeTransition,
+  serializeDelegation,
+  serializeDemand,
+  type OrdsRow,
+} from '../normalize';
+import type { Versioned } from '../ords/client';
+import { APP_CONFIG } from '../constants/app';
+import { contentEtag } from '../utils/etag';
+import type { Demand } from '../types';
+import type { LocalStore } from './localStore';
+import type { LocalTables } from './tables';
+import { seedTables } from './seed';
+import type { Backend, DemandRepository } from './types';
+
+/* ------------------------------
+ * Local repository
+ * ------------------------------ */
+
+// The repository over a LocalStore, behaving like the ORDS backend where the UI can
+// tell: the same `q=` filter semantics, content ETags checked against If-Match, and
+// the same error classes. The whole dataset is loaded once and saved after each write.
+
+interface LocalRepositoryOptions {
+  backend?: Exclude<Backend, 'ords'>;
+  // Used when the store is empty
+  seed?: () => LocalTables;
+}
+
+export function createLocalRepository(store: LocalStore, { backend = 'memory', seed = seedTables }: LocalRepositoryOptions = {}): DemandRepository {
+  let loaded: Promise<LocalTables> | undefined;
+
+  function tables(options: CallOptions = {}): Promise<LocalTables> {
+    options.signal?.throwIfAborted();
+    loaded ??= store.load().then(async (saved) => {
+      if (saved) return saved;
+      const seeded = seed();
+      await store.save(seeded);
+      return seeded;
+    });
+    return loaded;
+  }
+
+  function demandRow(data: LocalTables, id: string): OrdsRow {
+    const row = data.demands.find((r) => String(r.id) === id);
+    if (!row) throw new NotFoundError(`Demand ${id} not found`, { status: 404, code: 'NotFound' });
+    return row;
+  }
+
+  function childrenOf(rows: OrdsRow[], demandId: string): OrdsRow[] {
+    return rows.filter((r) => String(r.demand_id) === demandId);
+  }
+
+  // DEM-<year>-<nnn>, numbered after the highest id already used this year
+  function nextDemandId(data: LocalTables): string {
+    const prefix = `DEM-${new Date().getUTCFullYear()}-`;
+    const used = data.demands
+      .map((r) => String(r.id))
+      .filter((id) => id.startsWith(prefix))
+      .map((id) => Number(id.slice(prefix.length)) || 0);
+    return `${prefix}${String(Math.max(0, ...used) + 1).padStart(3, '0')}`;
+  }
+
+  async function updateDemand(id: string, patch: Partial<Demand>, options: UpdateOptions = {}): Promise<Versioned<Demand>> {
+    const data = await tables(options);
+    const row = demandRow(data, id);
+    const etag = contentEtag(row);
+    if (options.ifMatch && options.ifMatch !== '*' && options.ifMatch !== etag) {
+      throw new PreconditionFailedError(`Demand ${id} was changed by someone else`, { status: 412, code: 'PreconditionFailed' });
+    }
+    const changes = diffDemand(normalizeDemand(row), patch);
+    if (Object.keys(changes).length === 0) return { data: normalizeDemand(row), etag };
+
+    const demand = normalizeDemand({ ...row, ...changes, id });
+    const saved = serializeDemand(demand);
+    data.demands[data.demands.indexOf(row)] = saved;
+    await store.save(data);
+    return { data: demand, etag: contentEtag(saved) };
+  }
+
+  return {
+    backend,
+
+    async listDemands(request: DemandPageRequest = {}, options?: CallOptions) {
+      const data = await tables(options);
+      const offset = request.offset ?? 0;
+      const limit = request.limit ?? APP_CONFIG.DEFAULT_PAGE_SIZE;
+      const q = toDemandQuery(request);
+      const rows = sortByOrderBy(data.demands.filter((r) => matchesFilter(r, q)), q);
+      return { items: rows.slice(offset, offset + limit).map(normalizeDemand), offset, limit, hasMore: offset + limit < rows.length };
+    },
+
+    async getDemand(id, options) {
+      const row = demandRow(await tables(options), id);
+      return { data: normalizeDemand(row), etag: contentEtag(row) };
+    },
+
+    async createDemand(form) {
+      const data = await tables();
+      const id = nextDemandId(data);
+      // Parsed before it is stored, so the store only ever holds valid rows
+      const demand = normalizeDemand({ ...serializeDemand(toNewDemand(form)), id, created_date: new Date().toISOString() });
+      data.demands.push(serializeDemand(demand));
+      await store.save(data);
+      return demand;
+    },
+
+    updateDemand,
+
+    deleteDemand(id, deletedBy, options) {
+      return updateDemand(id, { deleted_at: new Date().toISOString(), deleted_by: deletedBy }, options);
+    },
+
+    restoreDemand(id, options) {
+      return updateDemand(id, { deleted_at: null, deleted_by: null }, options);
+    },
+
+    async purgeDemand(id) {
+      const data = await tables();
+      demandRow(data, id);
+      data.demands = data.demands.filter((r) => String(r.id) !== id);
+      data.comments = data.comments.filter((r) => String(r.demand_id) !== id);
+      data.audit = data.audit.filter((r) => String(r.demand_id) !== id);
+      data.approvals = data.approvals.filter((r) => String(r.demand_id) !== id);
+      data.attachments = data.attachments.filter((r) => String(r.demand_id) !== id);
+      data.transitions = data.transitions.filter((r) => String(r.demand_id) !== id);
+      await store.save(data);
+    },
+
+    async listComments(demandId, options) {
+      return childrenOf((await tables(options)).comments, demandId).map(normalizeComment);
+    },
+
+    async addComment(demandId, author, body) {
+      const data = await tables();
+      demandRow(data, demandId);
+      const row = { id: crypto.randomUUID(), demand_id: demandId, author, body, created_at: new Date().toISOString() };
+      data.comments.push(row);
+      await store.save(data);
+      return normalizeComment(row);
+    },
+
+    async listAudit(demandId, options) {
+      return childrenOf((await tables(options)).audit, demandId).map(normalizeAudit);
+    },
+
+    async addAudit(demandId, who, action, note = null) {
+      const data = await tables();
+      demandRow(data, demandId);
+      const row = { id: crypto.randomUUID(), demand_id: demandId, who, action, note, at: new Date().toISOString() };
+      data.audit.push(row);
+      await store.save(data);
+      return normalizeAudit(row);
+    },
+
+    async listApprovals(demandId, options) {
+      return childrenOf((await tables(options)).approvals, demandId).map(normalizeApproval);
+    },
+
+    async addApproval(demandId, decision) {
+      const data = await tables();
+      demandRow(data, demandId);
+      const row = { id: crypto.randomUUID(), demand_id: demandId, ...byColumn(decision), decided_at: new Date().toISOString() };
+      data.approvals.push(row);
+      await store.save(data);
+      return normalizeApproval(row);
+    },
+
+    async listAttachments(demandId, options) {
+      return childrenOf((await tables(options)).attachments, demandId).map(normalizeAttachment);
+    },
+
+    async addAttachment(demandId, file, uploadedBy) {
+      const data = await tables();
+      demandRow(data, demandId);
+      const row = {
+        id: crypto.randomUUID(),
+        demand_id: demandId,
+        name: file.name,
+        size: file.size,
+        mime_type: file.type || null,
+        uploaded_by: uploadedBy ?? null,
+        uploaded_at: new Date().toISOString(),
+        content: file,
+      };
+      data.attachments.push(row);
+      await store.save(data);
+      return normalizeAttachment(row);
+    },
+
+    async removeAttachment(demandId, attachmentId) {
+      const data = await tables();
+      const index = data.attachments.findIndex((r) => String(r.id) === attachmentId && String(r.demand_id) === demandId);
+      if (index < 0) throw new NotFoundError(`Attachment ${attachmentId} not found`, { status: 404, code: 'NotFound' });
+      data.attachments.splice(index, 1);
+      await store.save(data);
+    },
+
+    async listTransitions(demandId, options) {
+      const rows = (await tables(options)).transitions;
+      const history = demandId === null ? rows : childrenOf(rows, demandId);
+      return sortByOrderBy(history, { $orderby: { at: 'asc' } }).map(normalizeTransition);
+    },
+
+    async addTransition(demandId, transition) {
+      const data = await tables();
+      demandRow(data, demandId);
+      const row = { id: crypto.randomUUID(), ...byColumn(transition), demand_id: demandId, at: new Date().toISOString() };
+      data.transitions.push(row);
+      await store.save(data);
+      return normalizeTransition(row);
+    },
+
+    async listDelegations(options) {
+      return (await tables(options)).delegations.map(normalizeDelegation);
+    },
+
+    async addDelegation(delegation) {
+      const data = await tables();
+      const row = { id: crypto.randomUUID(), ...serializeDelegation(delegation), created_at: new Date().toISOString() };
+      data.delegations.push(row);
+      await store.save(data);
+      return normalizeDelegation(row);
+    },
+
+    async removeDelegation(id) {
+      const data = await tables();
+      const index = data.delegations.findIndex((r) => String(r.id) === id);
+      if (index < 0) throw new NotFoundError(`Delegation ${id} not found`, { status: 404, code: 'NotFound' });
+      data.delegations.splice(index, 1);
+      await store.save(data);
+    },
+
+    async addAccessEvent(event) {
+      const data = await tables();
+      const row = { id: crypto.randomUUID(), ...byColumn(event), at: new Date().toISOString() };
+      data.access_log.push(row);
+      await store.save(data);
+      return normalizeAccessEvent(row);
+    },
+  };
+}
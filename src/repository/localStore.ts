@@ -0,0 +1,64 @@
+import { TABLE_NAMES, type LocalTables } from './tables';
+
+/* ------------------------------
+ * Local storage for the repository
+ * ------------------------------ */
+
+export interface LocalStore {
+  // undefined when nothing has been saved yet (the repository then seeds it)
+  load(): Promise<LocalTables | undefined>;
+  save(tables: LocalTables): Promise<void>;
+}
+
+// Gone on reload; what tests use
+export function createMemoryStore(initial?: LocalTables): LocalStore {
+  let saved = initial;
+  return {
+    load: async () => saved,
+    save: async (tables) => {
+      saved = tables;
+    },
+  };
+}
+
+// Survives reloads, for working on the UI without a database. One record per table;
+// attachment content is stored as the Blob itself.
+export function createIndexedDbStore(dbName = 'itdm-demands'): LocalStore {
+  const STORE = 'tables';
+  let db: Promise<IDBDatabase> | undefined;
+
+  function open(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  }
+
+  function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  return {
+    async load() {
+      const tx = (await open()).transaction(STORE, 'readonly');
+      const store = tx.objectStore(STORE);
+      const requests = TABLE_NAMES.map((name) => store.get(name) as IDBRequest<LocalTables[typeof name] | undefined>);
+      await done(tx);
+      if (requests.every((r) => r.result === undefined)) return undefined;
+      return Object.fromEntries(TABLE_NAMES.map((name, i) => [name, requests[i].result ?? []])) as unknown as LocalTables;
+    },
+    async save(tables) {
+      const tx = (await open()).transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      for (const name of TABLE_NAMES) store.put(tables[name], name);
+      await done(tx);
+    },
+  };
+}
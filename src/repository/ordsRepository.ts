@@ -0,0 +1,54 @@
+import {
+  createDemand,
+  deleteAttachment,
+  deleteDelegation,
+  fetchApprovals,
+  fetchAttachments,
+  fetchAudit,
+  fetchComments,
+  fetchDelegations,
+  fetchTransitions,
+  getDemandVersion,
+  listDemandsPage,
+  postAccessEvent,
+  postApproval,
+  postAudit,
+  postComment,
+  postDelegation,
+  postTransition,
+  purgeDemand,
+  restoreDemand,
+  softDeleteDemand,
+  updateDemandVersion,
+  uploadAttachment,
+} from '../api';
+import type { DemandRepository } from './types';
+
+// The database, through the ORDS client configured in api.ts
+export function createOrdsRepository(): DemandRepository {
+  return {
+    backend: 'ords',
+    listDemands: listDemandsPage,
+    getDemand: getDemandVersion,
+    createDemand,
+    updateDemand: updateDemandVersion,
+    deleteDemand: softDeleteDemand,
+    restoreDemand,
+    purgeDemand,
+    listComments: fetchComments,
+    addComment: postComment,
+    listAudit: fetchAudit,
+    addAudit: postAudit,
+    listApprovals: fetchApprovals,
+    addApproval: postApproval,
+    listAttachments: fetchAttachments,
+    addAttachment: uploadAttachment,
+    removeAttachment: deleteAttachment,
+    listTransitions: fetchTransitions,
+    addTransition: postTransition,
+    listDelegations: fetchDelegations,
+    addDelegation: postDelegation,
+    removeDelegation: deleteDelegation,
+    addAccessEvent: postAccessEvent,
+  };
+}
@@ -0,0 +1,151 @@
+import { DEFAULT_WORKFLOW } from '../workflow/definition';
+import type { Role } from '../rbac/types';
+import type { Demand, DemandStatus } from '../types';
+import type { WorkflowStageDefinition } from '../workflow/types';
+import type { LocalTables } from './tables';
+
+/* ------------------------------
+ * Seed data for the local backends
+ * ------------------------------ */
+
+// One demand at each of the workflow stages, so every step of the workflow can be
+// exercised without a database. Dates are fixed so tests see the same data every run.
+// Each demand's stage history walks it there one stage at a time.
+
+type SeedDemand = Pick<Demand, 'title' | 'type' | 'priority' | 'requestor' | 'department' | 'estimated_cost'>;
+
+const SEED: SeedDemand[] = [
+  { title: 'Self-service password reset', type: 'Support', priority: 'MEDIUM', requestor: 'John Smith', department: 'IT Operations', estimated_cost: 12000 },
+  { title: 'Vendor portal for invoice tracking', type: 'Operational', priority: 'HIGH', requestor: 'Maria Lopez', department: 'Finance', estimated_cost: 45000 },
+  { title: 'Data retention policy tooling', type: 'Compliance', priority: 'CRITICAL', requestor: 'Ahmed Khan', department: 'Legal', estimated_cost: 30000 },
+  { title: 'Field service mobile app', type: 'Innovation', priority: 'MEDIUM', requestor: 'Chen Wei', department: 'Operations', estimated_cost: 80000 },
+  { title: 'ERP upgrade to current release', type: 'Strategic', priority: 'HIGH', requestor: 'Sara Nolan', department: 'IT Operations', estimated_cost: 250000 },
+  { title: 'Customer analytics platform', type: 'Strategic', priority: 'HIGH', requestor: 'Priya Patel', department: 'Marketing', estimated_cost: 180000 },
+  { title: 'Contract lifecycle management', type: 'Operational', priority: 'MEDIUM', requestor: 'Tom Becker', department: 'Procurement', estimated_cost: 60000 },
+  { title: 'Network refresh for branch offices', type: 'Operational', priority: 'LOW', requestor: 'Lena Fischer', department: 'IT Infrastructure', estimated_cost: 95000 },
+  { title: 'Intranet search replacement', type: 'Support', priority: 'LOW', requestor: 'Omar Haddad', department: 'Communications', estimated_cost: 20000 },
+];
+
+// Where a demand at each stage (by position) stands
+const STATUS_BY_STAGE: DemandStatus[] = [
+  'Draft',
+  'Submitted',
+  'Under Review',
+  'Under Review',
+  'Under Review',
+  'Under Review',
+  'Approved',
+  'Approved',
+  'Completed',
+];
+
+function isoDay(month: number, day: number): string {
+  return new Date(Date.UTC(2025, month - 1, day)).toISOString();
+}
+
+// Who moved a demand on from a stage: the requestor submits, the stage's approver signs off,
+// and ITPMO advances it through delivery
+function moverFrom(from: WorkflowStageDefinition, requestor: string | null): { actor: string; acting_role: Role } {
+  if (from.key === DEFAULT_WORKFLOW.initialStage) return { actor: requestor ?? 'unknown', acting_role: 'Demand Requestor' };
+  if (from.approver === 'BU Head') return { actor: 'Dana Reyes', acting_role: 'BU Head' };
+  return { actor: 'system', acting_role: from.approver ?? 'ITPMO' };
+}
+
+export function seedTables(): LocalTables {
+  const tables: LocalTables = { demands: [], comments: [], audit: [], approvals: [], attachments: [], delegations: [], transitions: [], access_log: [] };
+
+  DEFAULT_WORKFLOW.stages.forEach((stage, i) => {
+    const id = `DEM-2025-${String(i + 1).padStart(3, '0')}`;
+    const created = isoDay(1 + i, 10);
+    const seed = SEED[i];
+
+    tables.demands.push({
+      id,
+      title: seed.title,
+      type: seed.type,
+      priority: seed.priority,
+      status: STATUS_BY_STAGE[i],
+      current_stage: stage.key,
+      // When its last transition below says it got there
+      stage_entered_at: i > 0 ? isoDay(1 + i, 20) : created,
+      created_date: created,
+      expected_start_date: isoDay(3 + i, 1),
+      expected_delivery: isoDay(Math.min(9 + i, 12), 30),
+      description: `${seed.title} (${stage.name}).`,
+      requestor: seed.requestor,
+      department: seed.department,
+      progress: Math.round((i / (DEFAULT_WORKFLOW.stages.length - 1)) * 100),
+      business_justification: `Requested by ${seed.department}.`,
+      estimated_cost: seed.estimated_cost,
+      budget_source: seed.type === 'Strategic' ? 'Capital' : 'Operating',
+      cost_category: 'Project',
+      roi: null,
+      last_modified_by: seed.requestor,
+    });
+
+    tables.audit.push({ id: `${id}-A1`, demand_id: id, who: seed.requestor, at: created, action: 'Created', note: null });
+    let status: DemandStatus = DEFAULT_WORKFLOW.initialStatus;
+    for (let k = 1; k <= i; k++) {
+      const from = DEFAULT_WORKFLOW.stages[k - 1];
+      const to = DEFAULT_WORKFLOW.stages[k];
+      const move = DEFAULT_WORKFLOW.transitions.find((t) => t.from.includes(from.key) && t.to === to.key);
+      const to_status = k === i ? STATUS_BY_STAGE[i] : (move?.status ?? status);
+      tables.transitions.push({
+        id: `${id}-T${k}`,
+        demand_id: id,
+        action: move?.action ?? 'approve',
+        from_stage: from.key,
+        to_stage: to.key,
+        from_status: status,
+        to_status,
+        ...moverFrom(from, seed.requestor),
+        on_behalf_of: null,
+        comment: null,
+        at: k === i ? isoDay(1 + i, 20) : isoDay(1 + i, 10 + k),
+      });
+      status = to_status;
+    }
+    if (i > 0) {
+      tables.audit.push({
+        id: `${id}-A2`,
+        demand_id: id,
+        who: 'system',
+        at: isoDay(1 + i, 20),
+        action: `Moved to ${stage.key}`,
+        note: null,
+      });
+      tables.approvals.push({
+        id: `${id}-P1`,
+        demand_id: id,
+        role: 'BU Head',
+        approver: 'Dana Reyes',
+        approver_id: 'seed-dana-reyes',
+        status: 'Approved',
+        decided_at: isoDay(1 + i, 20),
+        stage: 'Screening',
+      });
+      // The Demand Board needs two votes; one member has voted already
+      if (stage.quorum) {
+        tables.approvals.push({
+          id: `${id}-P2`,
+          demand_id: id,
+          role: stage.approver,
+          approver: 'Grace Obi',
+          approver_id: 'seed-grace-obi',
+          status: 'Approved',
+          decided_at: isoDay(1 + i, 22),
+          stage: stage.key,
+        });
+      }
+      tables.comments.push({
+        id: `${id}-C1`,
+        demand_id: id,
+        author: 'Dana Reyes',
+        body: 'Business need confirmed.',
+        created_at: isoDay(1 + i, 20),
+      });
+    }
+  });
+
+  return tables;
+}
@@ -0,0 +1,16 @@
+import type { OrdsRow } from '../normalize';
+
+// What the local backends store. Rows are keyed by column name, exactly as ORDS
+// would hold them, so they are parsed with the same schemas as server responses.
+export interface LocalTables {
+  demands: OrdsRow[];
+  comments: OrdsRow[];
+  audit: OrdsRow[];
+  approvals: OrdsRow[];
+  attachments: OrdsRow[];
+  delegations: OrdsRow[];
+  transitions: OrdsRow[];
+  access_log: OrdsRow[];
+}
+
+export const TABLE_NAMES = ['demands', 'comments', 'audit', 'approvals', 'attachments', 'delegations', 'transitions', 'access_log'] as const;
@@ -0,0 +1,74 @@
+import type { ApprovalDecision, CallOptions, DemandPageRequest, NewAccessEvent, NewDelegation, NewTransition, Page, UpdateOptions } from '../api';
+import type { Versioned } from '../ords/client';
+import type { Role } from '../rbac/types';
+import type { AccessEvent, Delegation, Demand, DemandApproval, DemandAttachment, DemandAudit, DemandComment, DemandTransition } from '../types';
+import type { WorkflowActor } from '../workflow/guard';
+
+/* ------------------------------
+ * Demand repository
+ * ------------------------------ */
+
+// Everything the app reads and writes about demands, independent of where it is
+// stored. The ORDS implementation talks to the database; the local ones keep the
+// same data in memory (tests) or IndexedDB (offline development). Errors are the
+// ones in ords/errors, whichever backend raised them, so callers handle one set.
+
+export type Backend = 'ords' | 'memory' | 'indexeddb';
+
+export interface DemandUpdateOptions extends UpdateOptions {
+  // Who is acting; status/stage changes are refused without one (see workflow/guard.ts)
+  actor?: WorkflowActor;
+  // Kept with the move in the demand's stage history
+  comment?: string | null;
+}
+
+export interface DemandCreateOptions {
+  // Who is creating it; a demand submitted straight away records the submit as its first move
+  actor?: WorkflowActor;
+}
+
+export interface DelegationCreateOptions {
+  // The signed-in user and their verified roles; the workflow guard refuses a delegation without one
+  grantor?: { id: string; roles: Role[] };
+}
+
+export interface DemandRepository {
+  readonly backend: Backend;
+
+  // Demands
+  listDemands(request?: DemandPageRequest, options?: CallOptions): Promise<Page<Demand>>;
+  getDemand(id: string, options?: CallOptions): Promise<Versioned<Demand>>;
+  createDemand(form: Partial<Demand>, options?: DemandCreateOptions): Promise<Demand>;
+  // Writes only the changed fields; `ifMatch` guards against overwriting someone else's save
+  updateDemand(id: string, patch: Partial<Demand>, options?: DemandUpdateOptions): Promise<Versioned<Demand>>;
+  // Soft delete: sets deleted_at/deleted_by, which hides the demand from lists
+  deleteDemand(id: string, deletedBy: string, options?: UpdateOptions): Promise<Versioned<Demand>>;
+  restoreDemand(id: string, options?: UpdateOptions): Promise<Versioned<Demand>>;
+  // Permanent; the demand and everything attached to it are gone
+  purgeDemand(id: string): Promise<void>;
+
+  // Sub-resources
+  listComments(demandId: string, options?: CallOptions): Promise<DemandComment[]>;
+  addComment(demandId: string, author: string, body: string): Promise<DemandComment>;
+  listAudit(demandId: string, options?: CallOptions): Promise<DemandAudit[]>;
+  addAudit(demandId: string, who: string, action: string, note?: string | null): Promise<DemandAudit>;
+  listApprovals(demandId: string, options?: CallOptions): Promise<DemandApproval[]>;
+  // Records one approver's decision (a vote, where the stage has a quorum)
+  addApproval(demandId: string, decision: ApprovalDecision): Promise<DemandApproval>;
+  listAttachments(demandId: string, options?: CallOptions): Promise<DemandAttachment[]>;
+  addAttachment(demandId: string, file: File, uploadedBy?: string): Promise<DemandAttachment>;
+  removeAttachment(demandId: string, attachmentId: string): Promise<void>;
+
+  // Stage history, oldest first; every demand's when `demandId` is null. Append-only:
+  // entries are written by the workflow guard (guardedRepository.ts), never changed.
+  listTransitions(demandId: string | null, options?: CallOptions): Promise<DemandTransition[]>;
+  addTransition(demandId: string, transition: NewTransition): Promise<DemandTransition>;
+
+  // Out-of-office delegations, everyone's
+  listDelegations(options?: CallOptions): Promise<Delegation[]>;
+  addDelegation(delegation: NewDelegation, options?: DelegationCreateOptions): Promise<Delegation>;
+  removeDelegation(id: string): Promise<void>;
+
+  // Privileged actions (see accessEventSchema); nothing in the app reads them back
+  addAccessEvent(event: NewAccessEvent): Promise<AccessEvent>;
+}
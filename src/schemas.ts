@@ -0,0 +1,156 @@
+import type { Role } from './rbac/types';
+import { WORKFLOW_ACTIONS } from './workflow/types';
+import { from, nullable, number, object, oneOf, SchemaError, string, withDefault, type Schema } from './utils/schema';
+
+/* ------------------------------
+ * Response schemas
+ * ------------------------------ */
+
+// What a demand and its sub-resources must look like once their keys have been
+// normalized to column names (see normalize.ts). The domain types in types.ts are
+// derived from these, so the checks and the types cannot drift apart.
+
+export const DEMAND_STATUSES = ['Draft', 'Submitted', 'Under Review', 'Info Requested', 'Approved', 'Rejected', 'Completed'] as const;
+export const DEMAND_TYPES = ['Strategic', 'Operational', 'Support', 'Compliance', 'Innovation'] as const;
+export const DEMAND_PRIORITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const;
+
+const text = () => nullable(string());
+const numeric = () => nullable(number());
+
+// Stored as one comma-separated column, e.g. "Finance,Legal"; empty for none
+const commaList = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `a comma-separated list of ${item.expected}`,
+  parse(value, field = '') {
+    if (value === null || value === undefined || value === '') return [];
+    if (typeof value !== 'string' && !Array.isArray(value)) throw new SchemaError(field, this.expected, value);
+    const parts = Array.isArray(value) ? value : value.split(',').map((part) => part.trim()).filter(Boolean);
+    return parts.map((part, i) => item.parse(part, `${field}[${i}]`));
+  },
+});
+
+export const demandSchema = object({
+  id: string(),
+  title: string(),
+  type: oneOf(DEMAND_TYPES),
+  priority: oneOf(DEMAND_PRIORITIES),
+  status: oneOf(DEMAND_STATUSES),
+  current_stage: text(),
+  // When the demand last moved (to its stage, or into or out of review there); SLA clocks start here
+  stage_entered_at: text(),
+  created_date: text(),
+  expected_delivery: text(),
+  expected_start_date: text(),
+  description: text(),
+  requestor: text(),
+  // The requestor's user id (AAD object id); names change, this does not
+  requestor_id: text(),
+  department: text(),
+  progress: numeric(),
+  business_justification: text(),
+  expected_benefits: text(),
+  risk_assessment: text(),
+  success_criteria: text(),
+  estimated_cost: numeric(),
+  budget_source: text(),
+  cost_category: text(),
+  roi: numeric(),
+  last_modified_by: text(),
+  // Soft delete: set while the demand is in the trash
+  deleted_at: text(),
+  deleted_by: text(),
+});
+
+const generatedId = () => crypto.randomUUID();
+
+export const commentSchema = object({
+  id: withDefault(string(), generatedId),
+  author: withDefault(string(), 'Unknown'),
+  body: withDefault(string(), ''),
+  createdAt: from('created_at', withDefault(string(), '')),
+});
+
+export const auditSchema = object({
+  id: withDefault(string(), generatedId),
+  who: withDefault(string(), 'system'),
+  at: from(['at', 'created_at'], withDefault(string(), '')),
+  action: withDefault(string(), ''),
+  note: text(),
+});
+
+export const approvalSchema = object({
+  id: withDefault(string(), generatedId),
+  role: withDefault(string(), 'Approver'),
+  approver: withDefault(string(), 'Unknown'),
+  // AAD object id of the approver; votes are counted by it (see voterOf)
+  approverId: from('approver_id', text()),
+  status: withDefault(oneOf(['Pending', 'Approved', 'Rejected'] as const), 'Pending'),
+  decidedAt: from('decided_at', text()),
+  // Workflow stage the decision was made at; votes only count there
+  stage: text(),
+  // Set when a delegate decided for the approver named here
+  onBehalfOf: from('on_behalf_of', text()),
+  onBehalfOfId: from('on_behalf_of_id', text()),
+});
+
+const ROLES = ['Demand Requestor', 'BU Head', 'ITPMO', 'DBR', 'Admin'] as const satisfies readonly Role[];
+
+// Approval authority handed to someone else while its holder is away. Dates are
+// days (YYYY-MM-DD), both included; empty departments/types mean all of them.
+// Both people are matched by AAD object id; the names are only shown. A row saved
+// without the ids matches nobody, and so does one handing over a role that is not
+// among `delegatorRoles`, the delegator's verified roles when they made it.
+export const delegationSchema = object({
+  id: withDefault(string(), generatedId),
+  delegator: string(),
+  delegatorId: from('delegator_id', withDefault(string(), '')),
+  role: oneOf(ROLES),
+  delegatorRoles: from('delegator_roles', commaList(oneOf(ROLES))),
+  delegate: string(),
+  delegateId: from('delegate_id', withDefault(string(), '')),
+  startsOn: from('starts_on', string()),
+  endsOn: from('ends_on', string()),
+  departments: commaList(string()),
+  types: commaList(oneOf(DEMAND_TYPES)),
+  createdAt: from('created_at', text()),
+});
+
+// One move through the workflow, as it was made. The workflow guard writes one per
+// status/stage change and nothing ever updates or deletes them: this is the demand's
+// stage history, which progress views and cycle-time reports are built from.
+export const transitionSchema = object({
+  id: withDefault(string(), generatedId),
+  demandId: from('demand_id', string()),
+  action: oneOf(WORKFLOW_ACTIONS),
+  fromStage: from('from_stage', text()),
+  toStage: from('to_stage', text()),
+  fromStatus: from('from_status', oneOf(DEMAND_STATUSES)),
+  toStatus: from('to_status', oneOf(DEMAND_STATUSES)),
+  actor: string(),
+  actingRole: from('acting_role', oneOf(ROLES)),
+  // Set when a delegate made the move for the approver named here
+  onBehalfOf: from('on_behalf_of', text()),
+  comment: text(),
+  at: string(),
+});
+
+export const ACCESS_ACTIONS = ['view-as-start', 'view-as-end'] as const;
+
+// Privileged use of the app, recorded as it happens: an Admin starting and stopping
+// "view as" another role
+export const accessEventSchema = object({
+  id: withDefault(string(), generatedId),
+  who: string(),
+  action: oneOf(ACCESS_ACTIONS),
+  role: oneOf(ROLES),
+  at: string(),
+});
+
+// File metadata only; the content is fetched separately when someone opens the file
+export const attachmentSchema = object({
+  id: withDefault(string(), generatedId),
+  name: withDefault(string(), 'attachment'),
+  size: withDefault(number(), 0),
+  type: from(['mime_type', 'type'], withDefault(string(), 'application/octet-stream')),
+  uploadedBy: from('uploaded_by', text()),
+  uploadedAt: from('uploaded_at', text()),
+});
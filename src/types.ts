@@ -1,40 +1,35 @@
 // src/types.ts
-export type DemandStatus =
-  | "Draft"
-  | "Submitted"
-  | "Under Review"
-  | "Approved"
-  | "Rejected"
-  | "Completed";
+import type { Infer } from "./utils/schema";
+import type {
+  DEMAND_STATUSES,
+  DEMAND_TYPES,
+  DEMAND_PRIORITIES,
+  demandSchema,
+  commentSchema,
+  auditSchema,
+  approvalSchema,
+  attachmentSchema,
+  delegationSchema,
+  transitionSchema,
+  accessEventSchema,
+} from "./schemas";
 
-export type DemandType = "Strategic" | "Operational" | "Support" | "Compliance" | "Innovation";
+// Derived from the runtime schemas in src/schemas.ts
 
-export type DemandPriority = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+export type DemandStatus = (typeof DEMAND_STATUSES)[number];
 
-export interface Demand {
-  id: string;
-  title: string;
-  type: DemandType;
-  priority: DemandPriority;
-  status: DemandStatus;
-  currentStage?: string;
-  current_stage?: string | null;
-  createdDate?: string | null;
-  created_date?: string | null;
-  expectedDelivery?: string | null;
-  expected_delivery?: string | null;
-  expected_start_date?: string | null;
-  description?: string | null;
-  requestor?: string | null;
-  department?: string | null;
-  progress?: number | null;
-  business_justification?: string | null;
-  expected_benefits?: string | null;
-  risk_assessment?: string | null;
-  success_criteria?: string | null;
-  estimated_cost?: number | null;
-  budget_source?: string | null;
-  cost_category?: string | null;
-  roi?: number | null;
-  last_modified_by?: string | null;
-}
+export type DemandType = (typeof DEMAND_TYPES)[number];
+
+export type DemandPriority = (typeof DEMAND_PRIORITIES)[number];
+
+// Canonical demand, keyed by column name. Rows from ORDS go through
+// normalizeDemand (src/normalize.ts) before they reach the UI.
+export type Demand = Infer<typeof demandSchema>;
+
+export type DemandComment = Infer<typeof commentSchema>;
+export type DemandAudit = Infer<typeof auditSchema>;
+export type DemandApproval = Infer<typeof approvalSchema>;
+export type DemandAttachment = Infer<typeof attachmentSchema>;
+export type Delegation = Infer<typeof delegationSchema>;
+export type DemandTransition = Infer<typeof transitionSchema>;
+export type AccessEvent = Infer<typeof accessEventSchema>;
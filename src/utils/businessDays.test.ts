@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { addBusinessDays, businessDayOnOrBefore, businessDaysBetween, isBusinessDay } from './businessDays';
+
+// October 2026: Friday the 16th, the weekend, Monday the 19th
+const day = (date: number, hours = 0) => new Date(2026, 9, date, hours);
+const FRI = day(16);
+const SAT = day(17);
+const SUN = day(18);
+const MON = day(19);
+const MONDAY_OFF = ['2026-10-19'];
+
+describe('isBusinessDay', () => {
+  it('skips weekends and holidays', () => {
+    expect([FRI, SAT, SUN, MON].map((d) => isBusinessDay(d))).toEqual([true, false, false, true]);
+    expect(isBusinessDay(MON, MONDAY_OFF)).toBe(false);
+  });
+});
+
+describe('businessDaysBetween', () => {
+  it.each([
+    ['Friday to Monday', FRI, MON, [], 1],
+    ['Friday to Saturday', FRI, SAT, [], 0],
+    ['Saturday to Sunday', SAT, SUN, [], 0],
+    ['Sunday to Monday', SUN, MON, [], 1],
+    ['the same day', MON, MON, [], 0],
+    ['Monday to Friday', MON, day(23), [], 4],
+    ['Friday to Tuesday over a Monday holiday', FRI, day(20), MONDAY_OFF, 1],
+    ['Friday to Monday, a holiday', FRI, MON, MONDAY_OFF, 0],
+    ['backwards', MON, FRI, [], -1],
+  ] as const)('%s', (_label, from, to, holidays, expected) => {
+    expect(businessDaysBetween(from, to, holidays)).toBe(expected);
+  });
+
+  it('ignores the time of day', () => {
+    expect(businessDaysBetween(day(16, 23), day(19, 1))).toBe(1);
+    expect(businessDaysBetween(day(19, 1), day(19, 23))).toBe(0);
+  });
+});
+
+describe('addBusinessDays', () => {
+  it.each([
+    ['Friday + 1', FRI, 1, [], MON],
+    ['Saturday + 1', SAT, 1, [], MON],
+    ['Friday + 1 over a Monday holiday', FRI, 1, MONDAY_OFF, day(20)],
+    ['Monday - 1', MON, -1, [], FRI],
+    ['Tuesday - 1 over a Monday holiday', day(20), -1, MONDAY_OFF, FRI],
+    ['Monday + 5', MON, 5, [], day(26)],
+    ['Friday + 0', day(16, 15), 0, [], FRI],
+  ] as const)('%s', (_label, from, days, holidays, expected) => {
+    expect(addBusinessDays(from, days, holidays)).toEqual(expected);
+  });
+
+  it('undoes businessDaysBetween', () => {
+    const due = addBusinessDays(FRI, 3, MONDAY_OFF);
+    expect(businessDaysBetween(FRI, due, MONDAY_OFF)).toBe(3);
+  });
+});
+
+describe('businessDayOnOrBefore', () => {
+  it('goes back to the last business day', () => {
+    expect(businessDayOnOrBefore(SUN)).toEqual(FRI);
+    expect(businessDayOnOrBefore(day(19, 12), MONDAY_OFF)).toEqual(FRI);
+    expect(businessDayOnOrBefore(day(19, 12))).toEqual(MON);
+  });
+});
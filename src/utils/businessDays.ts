@@ -0,0 +1,65 @@
+/* ------------------------------
+ * Business days
+ * ------------------------------ */
+
+// Working-day arithmetic for SLA clocks: Saturdays, Sundays and the given holidays
+// (YYYY-MM-DD) do not count. Days are local calendar days; the time of day is ignored.
+
+export type Holidays = ReadonlySet<string> | readonly string[];
+
+// YYYY-MM-DD in local time, like the dates people pick
+export function localDay(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toSet(holidays: Holidays): ReadonlySet<string> {
+  return holidays instanceof Set ? holidays : new Set(holidays as readonly string[]);
+}
+
+export function isBusinessDay(date: Date, holidays: Holidays = []): boolean {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !toSet(holidays).has(localDay(date));
+}
+
+// Business days after `from` up to and including `to`: Friday to Monday is 1.
+// Negative when `to` is earlier.
+export function businessDaysBetween(from: Date, to: Date, holidays: Holidays = []): number {
+  const off = toSet(holidays);
+  const start = startOfDay(from);
+  const end = startOfDay(to);
+  if (end < start) return -businessDaysBetween(to, from, off);
+  let count = 0;
+  for (let day = addDays(start, 1); day <= end; day = addDays(day, 1)) {
+    if (isBusinessDay(day, off)) count++;
+  }
+  return count;
+}
+
+// The business day `days` business days after `from` (before it, for negative `days`)
+export function addBusinessDays(from: Date, days: number, holidays: Holidays = []): Date {
+  const off = toSet(holidays);
+  const step = days < 0 ? -1 : 1;
+  let day = startOfDay(from);
+  for (let left = Math.abs(days); left > 0; ) {
+    day = addDays(day, step);
+    if (isBusinessDay(day, off)) left--;
+  }
+  return day;
+}
+
+// The day itself when it is a business day, otherwise the last one before it
+export function businessDayOnOrBefore(date: Date, holidays: Holidays = []): Date {
+  const off = toSet(holidays);
+  let day = startOfDay(date);
+  while (!isBusinessDay(day, off)) day = addDays(day, -1);
+  return day;
+}
@@ -0,0 +1,29 @@
+// Field-level comparison of two records
+
+export interface FieldChange<T> {
+  field: Extract<keyof T, string>;
+  before: unknown;
+  after: unknown;
+}
+
+// null, undefined and "" all mean "no value" in ORDS rows
+function normalize(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value;
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (x === y) return true;
+  if (typeof x === 'object' || typeof y === 'object') return JSON.stringify(x) === JSON.stringify(y);
+  return false;
+}
+
+// Fields whose values differ; ORDS metadata such as `links` and `_etag` is ignored
+export function diffFields<T extends object>(before: T, after: T, fields?: Extract<keyof T, string>[]): FieldChange<T>[] {
+  const keys = fields ?? ([...new Set([...Object.keys(before), ...Object.keys(after)])] as Extract<keyof T, string>[]);
+  return keys
+    .filter((field) => field !== 'links' && !field.startsWith('_'))
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
@@ -0,0 +1,7 @@
+// Content hash in ETag form, so any change to a record changes its ETag (as with ORDS)
+export function contentEtag(value: unknown): string {
+  const text = JSON.stringify(value);
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (Math.imul(31, hash) + text.charCodeAt(i)) | 0;
+  return `"${(hash >>> 0).toString(16)}"`;
+}
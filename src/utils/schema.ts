@@ -0,0 +1,142 @@
+// Minimal runtime schemas. Each schema both checks a value and carries its static
+// type, so `Infer<typeof schema>` gives the TypeScript type without restating it.
+
+export class SchemaError extends Error {
+  readonly field: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(field: string, expected: string, received: unknown) {
+    super(`${field || 'value'}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'SchemaError';
+    this.field = field;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  // Input key(s) an object field is read from, when they differ from the field name
+  readonly source?: readonly string[];
+  // `field` is the path used in error messages
+  parse(value: unknown, field?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+}
+
+function isMissing(value: unknown) {
+  return value === null || value === undefined || value === '';
+}
+
+/* ------------------------------
+ * Primitives
+ * ------------------------------ */
+
+// Non-empty string; numeric ids are accepted and stringified
+export const string = (): Schema<string> => ({
+  expected: 'a string',
+  parse(value, field = '') {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value !== 'string' || value === '') throw new SchemaError(field, this.expected, value);
+    return value;
+  },
+});
+
+// Numbers may arrive as numeric strings (Oracle NUMBER through some handlers)
+export const number = (): Schema<number> => ({
+  expected: 'a number',
+  parse(value, field = '') {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n)) throw new SchemaError(field, this.expected, value);
+    return n;
+  },
+});
+
+// Also accepts the strings "true"/"false" and Oracle-style "Y"/"N"
+export const boolean = (): Schema<boolean> => ({
+  expected: 'a boolean',
+  parse(value, field = '') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'Y') return true;
+    if (value === 'false' || value === 'N') return false;
+    throw new SchemaError(field, this.expected, value);
+  },
+});
+
+export const oneOf = <const V extends readonly string[]>(values: V): Schema<V[number]> => ({
+  expected: `one of ${values.join(', ')}`,
+  parse(value, field = '') {
+    if (typeof value !== 'string' || !values.includes(value)) throw new SchemaError(field, this.expected, value);
+    return value as V[number];
+  },
+});
+
+/* ------------------------------
+ * Modifiers
+ * ------------------------------ */
+
+// null, undefined and "" (ORDS' ways of saying "no value") become null
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  expected: `${schema.expected} or null`,
+  parse(value, field = '') {
+    return isMissing(value) ? null : schema.parse(value, field);
+  },
+});
+
+export const withDefault = <T>(schema: Schema<T>, fallback: T | (() => T)): Schema<T> => ({
+  expected: schema.expected,
+  parse(value, field = '') {
+    if (!isMissing(value)) return schema.parse(value, field);
+    return typeof fallback === 'function' ? (fallback as () => T)() : fallback;
+  },
+});
+
+// Reads the field from the first of `keys` that has a value
+export const from = <T>(keys: string | readonly string[], schema: Schema<T>): Schema<T> => ({
+  ...schema,
+  source: typeof keys === 'string' ? [keys] : keys,
+});
+
+/* ------------------------------
+ * Objects
+ * ------------------------------ */
+
+export type Shape = Record<string, Schema<unknown>>;
+
+// Only the keys in `shape` are kept; others are ignored
+export const object = <S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  expected: 'an object',
+  parse(value, field = '') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(field, this.expected, value);
+    const source = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const keys = schema.source ?? [key];
+      const input = keys.find((k) => !isMissing(source[k])) ?? keys[0];
+      out[key] = schema.parse(source[input], field ? `${field}.${input}` : input);
+    }
+    return out as { [K in keyof S]: Infer<S[K]> };
+  },
+});
+
+/* ------------------------------
+ * Arrays
+ * ------------------------------ */
+
+// Each element is checked; errors name the element as `field[i]`
+export const array = <T>(schema: Schema<T>): Schema<T[]> => ({
+  expected: `a list of ${schema.expected}`,
+  parse(value, field = '') {
+    if (!Array.isArray(value)) throw new SchemaError(field, this.expected, value);
+    return value.map((item, i) => schema.parse(item, `${field}[${i}]`));
+  },
+});
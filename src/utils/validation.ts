@@ -1,4 +1,5 @@
 import { APP_CONFIG } from '../constants/app';
+import { DEMAND_PRIORITIES, DEMAND_TYPES } from '../schemas';
 
 // Input sanitization to prevent XSS
 export function sanitizeInput(input: string): string {
@@ -51,9 +52,7 @@ export function validateDescription(description: string): { valid: boolean; erro
 
 // Validate demand type
 export function validateDemandType(type: string): { valid: boolean; error?: string } {
-  const validTypes = ['Strategic', 'Operational', 'Support', 'Compliance', 'Innovation'];
-  
-  if (!type || !validTypes.includes(type)) {
+  if (!type || !(DEMAND_TYPES as readonly string[]).includes(type)) {
     return { valid: false, error: 'Invalid demand type' };
   }
   
@@ -62,9 +61,7 @@ export function validateDemandType(type: string): { valid: boolean; error?: stri
 
 // Validate priority
 export function validatePriority(priority: string): { valid: boolean; error?: string } {
-  const validPriorities = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
-  
-  if (!priority || !validPriorities.includes(priority)) {
+  if (!priority || !(DEMAND_PRIORITIES as readonly string[]).includes(priority)) {
     return { valid: false, error: 'Invalid priority level' };
   }
   
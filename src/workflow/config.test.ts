@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IllegalTransitionError } from '../ords/errors';
+import type { Demand } from '../types';
+import {
+  getWorkflow,
+  getWorkflowError,
+  loadConfiguredWorkflow,
+  LOCKED_WORKFLOW,
+  setWorkflow,
+  WorkflowConfigError,
+} from './config';
+import { DEFAULT_WORKFLOW } from './definition';
+import { planTransition } from './engine';
+import { checkNewDemand, checkTransition } from './guard';
+
+const CUSTOM = { ...DEFAULT_WORKFLOW, id: 'custom', name: 'Custom' };
+
+describe('loadConfiguredWorkflow', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    setWorkflow(DEFAULT_WORKFLOW);
+  });
+
+  it('uses the workflow file', async () => {
+    vi.stubEnv('VITE_WORKFLOW_URL', '/workflow.json');
+    vi.stubGlobal('fetch', async () => Response.json(CUSTOM));
+    await loadConfiguredWorkflow();
+    expect(getWorkflow().id).toBe('custom');
+    expect(getWorkflowError()).toBeNull();
+  });
+
+  it('moves no demand when the file cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('VITE_WORKFLOW_URL', '/workflow.json');
+    vi.stubGlobal('fetch', async () => new Response('Not found', { status: 404 }));
+    await loadConfiguredWorkflow();
+    expect(getWorkflow()).toBe(LOCKED_WORKFLOW);
+    expect(getWorkflowError()?.message).toMatch(/HTTP 404/);
+
+    const draft = { id: 'DEM-1', status: 'Draft', current_stage: 'Intake', title: 'Locked out' } as Demand;
+    const submit = planTransition(DEFAULT_WORKFLOW, draft, 'submit')!;
+    expect(planTransition(LOCKED_WORKFLOW, draft, 'submit')).toBeUndefined();
+    expect(() => checkTransition(LOCKED_WORKFLOW, draft, submit.patch, { name: 'Ann', role: 'Demand Requestor' })).toThrow(IllegalTransitionError);
+    expect(() => checkNewDemand(LOCKED_WORKFLOW, { ...draft, ...submit.patch })).toThrow(IllegalTransitionError);
+    expect(() => checkNewDemand(LOCKED_WORKFLOW, draft)).not.toThrow();
+  });
+
+  it('refuses a broken file the same way', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('VITE_WORKFLOW_URL', '/workflow.json');
+    vi.stubGlobal('fetch', async () => Response.json({ ...CUSTOM, initialStage: 'Nowhere' }));
+    await loadConfiguredWorkflow();
+    expect(getWorkflow()).toBe(LOCKED_WORKFLOW);
+    expect(getWorkflowError()).toBeInstanceOf(WorkflowConfigError);
+  });
+
+  it('gives up on a file that does not arrive in time', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('VITE_WORKFLOW_URL', '/workflow.json');
+    // Never answers; only the signal ends it
+    const fetch = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          const signal = init?.signal;
+          if (signal?.aborted) reject(signal.reason);
+          signal?.addEventListener('abort', () => reject(signal.reason));
+        })
+    );
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(AbortSignal, 'timeout').mockImplementation(() => AbortSignal.abort(new DOMException('Timed out', 'TimeoutError')));
+    await loadConfiguredWorkflow();
+    expect(fetch.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    expect(getWorkflow()).toBe(LOCKED_WORKFLOW);
+    expect(getWorkflowError()?.name).toBe('TimeoutError');
+  });
+});
@@ -0,0 +1,254 @@
+import { APP_CONFIG } from '../constants/app';
+import { ROLE_PERMISSIONS } from '../rbac/permissions';
+import type { Role } from '../rbac/types';
+import { DEMAND_STATUSES } from '../schemas';
+import { array, boolean, nullable, number, object, oneOf, SchemaError, string, withDefault, type Schema } from '../utils/schema';
+import { DEFAULT_WORKFLOW } from './definition';
+import {
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  QUORUM_RULES,
+  WORKFLOW_ACTIONS,
+  type ConditionValue,
+  type WorkflowDefinition,
+  type WorkflowStageDefinition,
+} from './types';
+
+/* ------------------------------
+ * Loading workflows from configuration
+ * ------------------------------ */
+
+// A workflow file is JSON in the shape of WorkflowDefinition. Optional parts (entry
+// and exit conditions, terminal, quorums, SLA targets, messages, routes, holidays)
+// may be left out. A file is
+// checked in full before it replaces the current workflow, so a typo cannot strand
+// demands at a stage nobody can act on.
+
+export class WorkflowConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid workflow: ${problems.join('; ')}`);
+    this.name = 'WorkflowConfigError';
+    this.problems = problems;
+  }
+}
+
+const role = (): Schema<Role> => ({
+  expected: `one of ${ROLE_PERMISSIONS.map((r) => r.role).join(', ')}`,
+  parse(value, field = '') {
+    if (!ROLE_PERMISSIONS.some((r) => r.role === value)) throw new SchemaError(field, this.expected, value);
+    return value as Role;
+  },
+});
+
+const conditionValue = (): Schema<ConditionValue> => ({
+  expected: 'a string, a number or a list of them',
+  parse(value, field = '') {
+    const scalar = (v: unknown) => typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v));
+    if (scalar(value) || (Array.isArray(value) && value.every(scalar))) return value as ConditionValue;
+    throw new SchemaError(field, this.expected, value);
+  },
+});
+
+const conditionSchema = object({
+  field: oneOf(CONDITION_FIELDS),
+  op: oneOf(CONDITION_OPERATORS),
+  value: nullable(conditionValue()),
+  message: nullable(string()),
+});
+
+const conditions = () => withDefault(array(conditionSchema), () => []);
+
+const quorumSchema = object({
+  rule: oneOf(QUORUM_RULES),
+  count: nullable(number()),
+  members: withDefault(array(string()), () => []),
+  chair: nullable(string()),
+});
+
+const stageSchema = object({
+  key: string(),
+  name: string(),
+  description: withDefault(string(), ''),
+  approver: nullable(role()),
+  quorum: nullable(quorumSchema),
+  slaDays: nullable(number()),
+  entry: conditions(),
+  exit: conditions(),
+  terminal: withDefault(boolean(), false),
+});
+
+// `from` may be one stage or a list
+const stageKeys = (): Schema<string[]> => ({
+  expected: 'a stage key or a list of them',
+  parse(value, field = '') {
+    return Array.isArray(value) ? array(string()).parse(value, field) : [string().parse(value, field)];
+  },
+});
+
+const transitionSchema = object({
+  action: oneOf(WORKFLOW_ACTIONS),
+  from: stageKeys(),
+  statuses: withDefault(array(oneOf(DEMAND_STATUSES)), () => []),
+  to: nullable(string()),
+  status: oneOf(DEMAND_STATUSES),
+});
+
+const routeSchema = object({
+  id: string(),
+  name: string(),
+  description: withDefault(string(), ''),
+  when: conditions(),
+  skip: withDefault(array(string()), () => []),
+  require: withDefault(array(string()), () => []),
+});
+
+const workflowSchema = object({
+  id: string(),
+  name: string(),
+  version: withDefault(number(), 1),
+  initialStage: string(),
+  initialStatus: withDefault(oneOf(DEMAND_STATUSES), 'Draft'),
+  reviewStatuses: array(oneOf(DEMAND_STATUSES)),
+  terminalStatuses: array(oneOf(DEMAND_STATUSES)),
+  stages: array(stageSchema),
+  transitions: array(transitionSchema),
+  routes: withDefault(array(routeSchema), () => []),
+  holidays: withDefault(array(string()), () => []),
+});
+
+// A board that can never reach a decision
+function quorumProblems(stage: WorkflowStageDefinition): string[] {
+  const { quorum } = stage;
+  if (!quorum) return [];
+  const label = `stage "${stage.key}" quorum`;
+  const problems: string[] = [];
+  const members = quorum.members.length;
+  if (!stage.approver) problems.push(`${label} is set on a stage without an approver`);
+  if ((quorum.rule === 'all' || quorum.rule === 'majority') && members === 0) problems.push(`${label} "${quorum.rule}" needs members`);
+  if (quorum.rule === 'count') {
+    if (quorum.count === null || quorum.count < 1 || !Number.isInteger(quorum.count)) problems.push(`${label} "count" needs a count of at least 1`);
+    else if (members > 0 && quorum.count > members) problems.push(`${label} needs ${quorum.count} approvals from ${members} members`);
+  }
+  if (quorum.chair !== null) {
+    if (quorum.rule !== 'majority') problems.push(`${label} has a chair, which only counts in a "majority" vote`);
+    else if (!quorum.members.includes(quorum.chair)) problems.push(`${label} chair "${quorum.chair}" is not a member`);
+  }
+  return problems;
+}
+
+// Checks the parts that refer to each other; returns what is wrong
+export function workflowProblems(definition: WorkflowDefinition): string[] {
+  const problems: string[] = [];
+  const keys = definition.stages.map((s) => s.key);
+  const known = (key: string) => keys.includes(key);
+
+  if (keys.length === 0) problems.push('there are no stages');
+  keys.forEach((key, i) => {
+    if (keys.indexOf(key) !== i) problems.push(`stage "${key}" is defined twice`);
+  });
+  if (!known(definition.initialStage)) problems.push(`initialStage "${definition.initialStage}" is not a stage`);
+  problems.push(...definition.stages.flatMap(quorumProblems));
+  for (const stage of definition.stages) {
+    if (stage.slaDays !== null && !(stage.slaDays > 0)) problems.push(`stage "${stage.key}" slaDays must be more than 0`);
+  }
+  for (const day of definition.holidays) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) problems.push(`holiday "${day}" is not a YYYY-MM-DD date`);
+  }
+
+  definition.transitions.forEach((t, i) => {
+    const label = `transitions[${i}] (${t.action})`;
+    for (const from of t.from) {
+      if (!known(from)) problems.push(`${label} starts at unknown stage "${from}"`);
+      else if (definition.stages.find((s) => s.key === from)?.terminal) problems.push(`${label} leaves terminal stage "${from}"`);
+    }
+    if (t.to !== null && !known(t.to)) problems.push(`${label} goes to unknown stage "${t.to}"`);
+    if ((t.action === 'approve' || t.action === 'return') && t.from.some((from) => !definition.stages.find((s) => s.key === from)?.approver)) {
+      problems.push(`${label} starts at a stage without an approver`);
+    }
+  });
+
+  definition.routes.forEach((r, i) => {
+    if (definition.routes.findIndex((other) => other.id === r.id) !== i) problems.push(`route "${r.id}" is defined twice`);
+    for (const key of [...r.skip, ...r.require]) {
+      if (!known(key)) problems.push(`route "${r.id}" names unknown stage "${key}"`);
+    }
+    if (r.skip.includes(definition.initialStage)) problems.push(`route "${r.id}" skips the initial stage`);
+  });
+
+  // One move per action and stage, so "approve" always means the same thing
+  for (const stage of definition.stages) {
+    const actions = definition.transitions.filter((t) => t.from.includes(stage.key)).map((t) => t.action);
+    for (const action of new Set(actions)) {
+      if (actions.filter((a) => a === action).length > 1) problems.push(`stage "${stage.key}" has more than one "${action}" transition`);
+    }
+  }
+  return problems;
+}
+
+export function parseWorkflow(json: unknown): WorkflowDefinition {
+  let definition: WorkflowDefinition;
+  try {
+    definition = workflowSchema.parse(json, 'workflow');
+  } catch (error) {
+    if (error instanceof SchemaError) throw new WorkflowConfigError([error.message]);
+    throw error;
+  }
+  const problems = workflowProblems(definition);
+  if (problems.length) throw new WorkflowConfigError(problems);
+  return definition;
+}
+
+/* ------------------------------
+ * Current workflow
+ * ------------------------------ */
+
+// The default stages with no moves at all: what applies while the configured workflow
+// cannot be loaded. Demands are still shown, but nothing is submitted or signed off
+// under rules nobody configured.
+export const LOCKED_WORKFLOW: WorkflowDefinition = {
+  ...DEFAULT_WORKFLOW,
+  id: 'locked',
+  name: 'Locked (workflow not loaded)',
+  transitions: [],
+};
+
+let workflow: WorkflowDefinition = DEFAULT_WORKFLOW;
+let loadError: Error | null = null;
+
+export function setWorkflow(next: WorkflowDefinition): void {
+  workflow = next;
+}
+
+export function getWorkflow(): WorkflowDefinition {
+  return workflow;
+}
+
+export async function loadWorkflow(url: string, signal?: AbortSignal): Promise<WorkflowDefinition> {
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`Could not load the workflow from ${url}: HTTP ${response.status}`);
+  return parseWorkflow(await response.json());
+}
+
+// Why the configured workflow could not be loaded; null when it was (or none is configured)
+export function getWorkflowError(): Error | null {
+  return loadError;
+}
+
+// VITE_WORKFLOW_URL points at a workflow file; without it the default workflow stays in
+// place. If it is set but cannot be loaded within the API timeout (the first render
+// waits for it), LOCKED_WORKFLOW applies and getWorkflowError() says why.
+export async function loadConfiguredWorkflow(): Promise<WorkflowDefinition> {
+  const url = import.meta.env.VITE_WORKFLOW_URL;
+  if (!url) return workflow;
+  try {
+    setWorkflow(await loadWorkflow(url, AbortSignal.timeout(APP_CONFIG.DEFAULT_API_TIMEOUT)));
+    loadError = null;
+  } catch (error) {
+    console.error('No demand moves until the workflow loads:', error);
+    setWorkflow(LOCKED_WORKFLOW);
+    loadError = error instanceof Error ? error : new Error(String(error));
+  }
+  return workflow;
+}
@@ -0,0 +1,106 @@
+import type { WorkflowCondition, WorkflowDefinition, WorkflowRoute, WorkflowStageDefinition } from './types';
+
+/* ------------------------------
+ * Default workflow
+ * ------------------------------ */
+
+// The demand lifecycle the app ships with. Screening to Business Case Development
+// are review stages, each signed off by one role; approving the last of them makes
+// the demand Approved and hands it to delivery, where stages are advanced without
+// a sign-off. Routes then shorten the path by demand type and cost. A reviewer can
+// send a demand back to an earlier stage for information; the requestor's resubmit
+// puts it back in review there (or, back at Intake, submits it again). At
+// Authorization the Demand Board votes, and two DBR members have to agree. Each
+// review stage has a target in business days; the board and the business case get
+// longer than the default.
+
+function required(field: WorkflowCondition['field'], label: string): WorkflowCondition {
+  return { field, op: 'present', value: null, message: `${label} is required` };
+}
+
+function stage(
+  key: string,
+  name: string,
+  description: string,
+  approver: WorkflowStageDefinition['approver'],
+  rest: Partial<Pick<WorkflowStageDefinition, 'quorum' | 'slaDays' | 'entry' | 'exit' | 'terminal'>> = {}
+): WorkflowStageDefinition {
+  return { key, name, description, approver, quorum: null, slaDays: null, entry: [], exit: [], terminal: false, ...rest };
+}
+
+const REVIEW_STAGES = ['Screening', 'Assessment', 'Evaluation', 'Authorization', 'Business Case Development'];
+const IN_REVIEW: WorkflowDefinition['reviewStatuses'] = ['Submitted', 'Under Review'];
+
+// Estimated cost from which the Demand Board (DBR) has to authorize a demand
+export const DBR_COST_THRESHOLD = 100_000;
+
+function route(id: string, name: string, description: string, rest: Partial<Pick<WorkflowRoute, 'when' | 'skip' | 'require'>>): WorkflowRoute {
+  return { id, name, description, when: [], skip: [], require: [], ...rest };
+}
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: 'default',
+  name: 'IT demand lifecycle',
+  version: 1,
+  initialStage: 'Intake',
+  initialStatus: 'Draft',
+  reviewStatuses: IN_REVIEW,
+  terminalStatuses: ['Rejected', 'Completed'],
+  stages: [
+    stage('Intake', 'Demand Capture', 'Logging of new business demand', 'Demand Requestor'),
+    stage('Screening', 'Demand Qualification', 'Assess business need, initial validation for business alignment', 'BU Head', {
+      entry: [required('title', 'A title'), required('description', 'A description'), required('type', 'A demand type')],
+      slaDays: 3,
+    }),
+    stage('Assessment', 'Demand Assessment', 'PMO or Portfolio team assesses feasibility, risk, urgency', 'ITPMO'),
+    stage('Evaluation', 'Demand Evaluation', 'Deeper analysis of impact, value, risk, capacity', 'ITPMO'),
+    stage(
+      'Authorization',
+      'Demand Prioritization & Authorization',
+      'Formal evaluation/prioritization by Demand Board/Service Portfolio Board',
+      'DBR',
+      { quorum: { rule: 'count', count: 2, members: [], chair: null }, slaDays: 10 }
+    ),
+    stage('Business Case Development', 'Business Case Development', 'Build formal business case for strategic/complex demands', 'ITPMO', {
+      exit: [required('business_justification', 'A business justification')],
+      slaDays: 10,
+    }),
+    stage('Service Portfolio Entry', 'Service Portfolio Entry / Service Pipeline', 'Approved demand moves into service/project portfolio', null),
+    stage('Service Implementation/Monitoring', 'Service Implementation / Monitoring', 'Demand delivered as project/change, status tracked', null),
+    stage('Closure', 'Demand Closure', 'Closure & Feedback', null, { terminal: true }),
+  ],
+  transitions: [
+    { action: 'submit', from: ['Intake'], statuses: ['Draft'], to: 'Screening', status: 'Under Review' },
+    { action: 'approve', from: ['Screening'], statuses: IN_REVIEW, to: 'Assessment', status: 'Under Review' },
+    { action: 'approve', from: ['Assessment'], statuses: IN_REVIEW, to: 'Evaluation', status: 'Under Review' },
+    { action: 'approve', from: ['Evaluation'], statuses: IN_REVIEW, to: 'Authorization', status: 'Under Review' },
+    { action: 'approve', from: ['Authorization'], statuses: IN_REVIEW, to: 'Business Case Development', status: 'Under Review' },
+    { action: 'approve', from: ['Business Case Development'], statuses: IN_REVIEW, to: 'Service Portfolio Entry', status: 'Approved' },
+    { action: 'reject', from: REVIEW_STAGES, statuses: IN_REVIEW, to: null, status: 'Rejected' },
+    { action: 'return', from: REVIEW_STAGES, statuses: IN_REVIEW, to: 'Intake', status: 'Info Requested' },
+    { action: 'resubmit', from: ['Intake'], statuses: ['Info Requested'], to: 'Screening', status: 'Under Review' },
+    { action: 'resubmit', from: REVIEW_STAGES, statuses: ['Info Requested'], to: null, status: 'Under Review' },
+    { action: 'advance', from: ['Service Portfolio Entry'], statuses: [], to: 'Service Implementation/Monitoring', status: 'Approved' },
+    { action: 'advance', from: ['Service Implementation/Monitoring'], statuses: [], to: 'Closure', status: 'Completed' },
+  ],
+  routes: [
+    route('below-dbr-threshold', 'Below DBR threshold', 'Estimated cost under the threshold: no Demand Board authorization', {
+      when: [{ field: 'estimated_cost', op: 'lt', value: DBR_COST_THRESHOLD, message: null }],
+      skip: ['Authorization'],
+    }),
+    route('compliance', 'Compliance', 'Regulatory demands need no business case', {
+      when: [{ field: 'type', op: 'equals', value: 'Compliance', message: null }],
+      skip: ['Business Case Development'],
+    }),
+    route('support-fast-track', 'Support fast track', 'Support demands go from Screening straight to the portfolio', {
+      when: [{ field: 'type', op: 'equals', value: 'Support', message: null }],
+      skip: ['Assessment', 'Evaluation', 'Authorization', 'Business Case Development'],
+    }),
+    // Wins over the fast track; a demand without an estimate keeps Authorization unless fast-tracked
+    route('dbr-required', 'DBR authorization', 'Estimated cost at or above the threshold: the Demand Board decides', {
+      when: [{ field: 'estimated_cost', op: 'gte', value: DBR_COST_THRESHOLD, message: null }],
+      require: ['Authorization'],
+    }),
+  ],
+  holidays: [],
+};
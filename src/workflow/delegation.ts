@@ -0,0 +1,56 @@
+import type { Role } from '../rbac/types';
+import type { Delegation } from '../types';
+import { localDay } from '../utils/businessDays';
+import { canReview, transitionsFrom, type WorkflowSubject } from './engine';
+import type { WorkflowDefinition } from './types';
+
+/* ------------------------------
+ * Delegation
+ * ------------------------------ */
+
+// While an approver is away, someone else can sign off in their place: for a range
+// of days, and optionally only for some departments or demand types. The delegate
+// acts with the approver's role, on their behalf, and sees those demands in their
+// own queue. People are identified by AAD object id, which survives a change of name.
+
+export { localDay };
+
+export function isDelegationActive(delegation: Delegation, day = localDay()): boolean {
+  return delegation.startsOn.slice(0, 10) <= day && day <= delegation.endsOn.slice(0, 10);
+}
+
+// Whether the delegator held the role they handed over when they made it
+export function delegatorHeld(delegation: Delegation): boolean {
+  return delegation.delegatorRoles.includes(delegation.role);
+}
+
+// Active, and the demand is in the departments and types it is limited to
+export function delegationCovers(delegation: Delegation, subject: WorkflowSubject, day = localDay()): boolean {
+  const inScope = <T>(allowed: T[], value: T | null | undefined) =>
+    allowed.length === 0 || (value !== null && value !== undefined && allowed.includes(value));
+  return isDelegationActive(delegation, day) && inScope(delegation.departments, subject.department) && inScope(delegation.types, subject.type);
+}
+
+// What the user with object id `userId` may currently do for others
+export function delegationsTo(delegations: Delegation[], userId: string, day = localDay()): Delegation[] {
+  return delegations.filter((d) => d.delegateId === userId && delegatorHeld(d) && isDelegationActive(d, day));
+}
+
+// The delegation that lets `userId` sign off on the demand at its stage, if any
+export function delegationFor(
+  definition: WorkflowDefinition,
+  delegations: Delegation[],
+  subject: WorkflowSubject,
+  userId: string,
+  day = localDay()
+): Delegation | undefined {
+  return delegationsTo(delegations, userId, day).find((d) => delegationCovers(d, subject, day) && canReview(definition, subject, d.role));
+}
+
+// Which of `roles` can be handed over: those approving at some stage. The requestor
+// is the approver of the initial stage, but has nothing there to approve.
+export function delegableRoles(definition: WorkflowDefinition, roles: Role[]): Role[] {
+  return roles.filter((role) =>
+    definition.stages.some((s) => s.approver === role && transitionsFrom(definition, s.key).some((t) => t.action === 'approve'))
+  );
+}
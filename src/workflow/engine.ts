@@ -0,0 +1,294 @@
+import { and, inList, isNull, or, type Filter } from '../ords/query';
+import type { Role } from '../rbac/types';
+import type { Delegation, Demand, DemandTransition } from '../types';
+import { lastVisit } from './history';
+import type {
+  WorkflowAction,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowRoute,
+  WorkflowStageDefinition,
+  WorkflowTransition,
+} from './types';
+
+/* ------------------------------
+ * Stages
+ * ------------------------------ */
+
+// The fields of a demand the workflow looks at; forms pass what they have so far
+export type WorkflowSubject = Partial<Demand>;
+
+// A demand without a stage is at the initial one; an unknown stage gives undefined
+export function stageFor(definition: WorkflowDefinition, key?: string | null): WorkflowStageDefinition | undefined {
+  return definition.stages.find((s) => s.key === (key ?? definition.initialStage));
+}
+
+// Position in display order, -1 for a stage the workflow does not know
+export function stageIndex(definition: WorkflowDefinition, key?: string | null): number {
+  const stage = stageFor(definition, key);
+  return stage ? definition.stages.indexOf(stage) : -1;
+}
+
+export function approverFor(definition: WorkflowDefinition, key?: string | null): Role | null {
+  return stageFor(definition, key)?.approver ?? null;
+}
+
+/* ------------------------------
+ * Conditions
+ * ------------------------------ */
+
+function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && (typeof value !== 'string' || value.trim() !== '');
+}
+
+export function meetsCondition(condition: WorkflowCondition, subject: WorkflowSubject): boolean {
+  const actual = subject[condition.field];
+  const expected = condition.value;
+  switch (condition.op) {
+    case 'present':
+      return isPresent(actual);
+    case 'equals':
+      return isPresent(actual) && String(actual) === String(expected);
+    case 'in':
+      return isPresent(actual) && (Array.isArray(expected) ? expected : [expected]).map(String).includes(String(actual));
+    default: {
+      // Comparisons: a missing or non-numeric value never passes
+      const a = Number(actual);
+      const b = Number(expected);
+      if (!isPresent(actual) || Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (condition.op === 'gt') return a > b;
+      if (condition.op === 'gte') return a >= b;
+      if (condition.op === 'lt') return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function describeCondition(condition: WorkflowCondition): string {
+  if (condition.message) return condition.message;
+  if (condition.op === 'present') return `${condition.field} is required`;
+  const value = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value);
+  return `${condition.field} must be ${condition.op} ${value}`;
+}
+
+// Messages for the conditions that do not hold; empty when all do
+export function unmetConditions(conditions: WorkflowCondition[], subject: WorkflowSubject): string[] {
+  return conditions.filter((c) => !meetsCondition(c, subject)).map(describeCondition);
+}
+
+/* ------------------------------
+ * Routes
+ * ------------------------------ */
+
+export interface RouteSelection {
+  // The routes whose conditions the demand meets, in definition order
+  routes: WorkflowRoute[];
+  // Stage keys the demand passes over
+  skipped: string[];
+  // The stages it does go through, in order
+  stages: WorkflowStageDefinition[];
+}
+
+// The demand's path through the workflow, from its type, priority, cost, department...
+export function selectRoute(definition: WorkflowDefinition, subject: WorkflowSubject): RouteSelection {
+  const routes = definition.routes.filter((r) => unmetConditions(r.when, subject).length === 0);
+  const required = new Set(routes.flatMap((r) => r.require));
+  const skipped = [...new Set(routes.flatMap((r) => r.skip))].filter((key) => !required.has(key));
+  return { routes, skipped, stages: definition.stages.filter((s) => !skipped.includes(s.key)) };
+}
+
+// "Compliance + Below DBR threshold", or "Standard" when no route applies
+export function describeRoute(selection: RouteSelection): string {
+  return selection.routes.length ? selection.routes.map((r) => r.name).join(' + ') : 'Standard';
+}
+
+// Percent complete at a stage, by position on the demand's route
+export function stageProgress(selection: RouteSelection, key: string): number {
+  const index = selection.stages.findIndex((s) => s.key === key);
+  const last = selection.stages.length - 1;
+  return index <= 0 || last <= 0 ? 0 : Math.round((index / last) * 100);
+}
+
+/* ------------------------------
+ * Transitions
+ * ------------------------------ */
+
+export function isFinished(definition: WorkflowDefinition, subject: WorkflowSubject): boolean {
+  return (
+    (subject.status !== undefined && definition.terminalStatuses.includes(subject.status)) ||
+    stageFor(definition, subject.current_stage)?.terminal === true
+  );
+}
+
+export function transitionsFrom(definition: WorkflowDefinition, key?: string | null): WorkflowTransition[] {
+  const stage = stageFor(definition, key);
+  return stage ? definition.transitions.filter((t) => t.from.includes(stage.key)) : [];
+}
+
+export function findTransition(
+  definition: WorkflowDefinition,
+  subject: WorkflowSubject,
+  action: WorkflowAction
+): WorkflowTransition | undefined {
+  if (isFinished(definition, subject)) return undefined;
+  return transitionsFrom(definition, subject.current_stage).find(
+    (t) => t.action === action && (t.statuses.length === 0 || (subject.status !== undefined && t.statuses.includes(subject.status)))
+  );
+}
+
+export interface TransitionPlan {
+  // The move that decides the outcome: the last one when skipped stages were passed
+  transition: WorkflowTransition;
+  // The stage the demand ends up at
+  stage: WorkflowStageDefinition;
+  // Stages passed over because the demand's route skips them
+  skipped: string[];
+  route: RouteSelection;
+  // What to write to the demand
+  patch: Pick<Demand, 'status' | 'current_stage' | 'progress'>;
+  // Exit conditions of the current stage and entry conditions of the next that fail
+  unmet: string[];
+}
+
+// Earlier stages on the demand's route, where a "return" can send it
+export function returnTargets(definition: WorkflowDefinition, subject: WorkflowSubject): WorkflowStageDefinition[] {
+  const current = stageIndex(definition, subject.current_stage);
+  return selectRoute(definition, subject).stages.filter((s) => definition.stages.indexOf(s) < current);
+}
+
+export interface PlanOptions {
+  // For "return": the earlier stage to send the demand to, instead of the default
+  to?: string;
+}
+
+// What `action` would do to the demand, or undefined when the workflow has no such move.
+// A move onto a stage the route skips carries on with the same action from there.
+export function planTransition(
+  definition: WorkflowDefinition,
+  subject: WorkflowSubject,
+  action: WorkflowAction,
+  options: PlanOptions = {}
+): TransitionPlan | undefined {
+  const first = findTransition(definition, subject, action);
+  const from = stageFor(definition, subject.current_stage);
+  const target = action === 'return' ? (options.to ?? first?.to) : first?.to;
+  const to = target ? stageFor(definition, target) : from;
+  if (!first || !from || !to) return undefined;
+  if (action === 'return' && !returnTargets(definition, subject).includes(to)) return undefined;
+
+  const route = selectRoute(definition, subject);
+  const skipped: string[] = [];
+  let transition: WorkflowTransition = first;
+  let stage: WorkflowStageDefinition = to;
+  while (action !== 'return' && stage !== from && route.skipped.includes(stage.key) && !skipped.includes(stage.key)) {
+    const key: string = stage.key;
+    const onward = definition.transitions.find((t) => t.action === action && t.to !== null && t.from.includes(key));
+    const next = onward?.to ? stageFor(definition, onward.to) : undefined;
+    if (!onward || !next) break;
+    skipped.push(key);
+    transition = onward;
+    stage = next;
+  }
+
+  const moves = stage !== from;
+  return {
+    transition,
+    stage,
+    skipped,
+    route,
+    patch: {
+      status: transition.status,
+      current_stage: stage.key,
+      progress: moves ? stageProgress(route, stage.key) : (subject.progress ?? null),
+    },
+    // Going back is never blocked
+    unmet: moves && action !== 'return' ? [...unmetConditions(from.exit, subject), ...unmetConditions(stage.entry, subject)] : [],
+  };
+}
+
+/* ------------------------------
+ * Approvers
+ * ------------------------------ */
+
+// True when `role` signs off at the demand's stage and the demand is waiting on it
+export function canReview(definition: WorkflowDefinition, subject: WorkflowSubject, role: Role): boolean {
+  return (
+    approverFor(definition, subject.current_stage) === role &&
+    subject.status !== undefined &&
+    definition.reviewStatuses.includes(subject.status) &&
+    findTransition(definition, subject, 'approve') !== undefined
+  );
+}
+
+function stagesOf(definition: WorkflowDefinition, role: Role): Filter<Demand> {
+  const stages = definition.stages.filter((s) => s.approver === role).map((s) => s.key);
+  const atStage: Filter<Demand> = { current_stage: inList(...stages) };
+  return stages.includes(definition.initialStage) ? or(atStage, { current_stage: isNull() }) : atStage;
+}
+
+// Demands waiting on any of `roles`, as an ORDS filter (a missing stage counts as the
+// initial one), plus those the user signs off for others (active delegations to them)
+export function reviewQueueFilter(definition: WorkflowDefinition, roles: Role[], delegations: Delegation[] = []): Filter<Demand> {
+  const delegated = delegations.map((d) =>
+    and<Demand>(
+      stagesOf(definition, d.role),
+      d.departments.length ? { department: inList(...d.departments) } : undefined,
+      d.types.length ? { type: inList(...d.types) } : undefined
+    )
+  );
+  const parts = [...roles.map((role) => stagesOf(definition, role)), ...delegated];
+  return parts.length === 1 ? parts[0] : or(...parts);
+}
+
+/* ------------------------------
+ * Progress view
+ * ------------------------------ */
+
+export type WorkflowStage = {
+  id: number;
+  key: string;
+  name: string;
+  description: string;
+  approver: Role | null;
+  completed: boolean;
+  current?: boolean;
+  // Not on this demand's route
+  skipped: boolean;
+  // From the stage history: when the demand last got to the stage, and for a
+  // completed one when and by whom it was moved on; null when not recorded
+  enteredAt: string | null;
+  completedAt: string | null;
+  completedBy: string | null;
+};
+
+/**
+ * Build the UI-friendly workflow for a demand from a definition and, for the dates,
+ * its stage history (oldest first).
+ * Always returns an ARRAY (never undefined).
+ */
+export function buildWorkflow(definition: WorkflowDefinition, subject: WorkflowSubject, history: DemandTransition[] = []): WorkflowStage[] {
+  const currentIndex = stageIndex(definition, subject.current_stage);
+  const { skipped } = selectRoute(definition, subject);
+
+  return definition.stages.map((s, i) => {
+    const completed = i < currentIndex && !skipped.includes(s.key);
+    const visit = lastVisit(history, s.key);
+    // Demands from before the history was kept still know when they were created
+    // and when they got to their current stage
+    const fallback = (i === currentIndex ? subject.stage_entered_at : null) ?? (s.key === definition.initialStage ? subject.created_date : null) ?? null;
+    const left = completed ? visit.left : null;
+    return {
+      id: i + 1,
+      key: s.key,
+      name: s.name,
+      description: s.description,
+      approver: s.approver,
+      completed,
+      current: i === currentIndex,
+      skipped: i !== currentIndex && skipped.includes(s.key),
+      enteredAt: completed || i === currentIndex ? (visit.enteredAt ?? fallback) : null,
+      completedAt: left?.at ?? null,
+      completedBy: left ? (left.onBehalfOf ? `${left.actor} on behalf of ${left.onBehalfOf}` : left.actor) : null,
+    };
+  });
+}
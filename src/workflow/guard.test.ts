@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import { ForbiddenError, IllegalTransitionError } from '../ords/errors';
+import type { Role } from '../rbac/types';
+import type { Delegation, Demand, DemandApproval, DemandStatus } from '../types';
+import { DEFAULT_WORKFLOW } from './definition';
+import { delegableRoles } from './delegation';
+import { planTransition } from './engine';
+import { checkDelegation, checkTransition, checkVote, findDelegation, type TransitionContext } from './guard';
+import { tallyQuorum } from './quorum';
+import { WORKFLOW_ACTIONS, type WorkflowAction } from './types';
+
+// Every (stage, action, role) of the default workflow, against a table written out
+// by hand: the guard has to agree with it on what is legal and who may do it.
+
+const ROLES: Role[] = ['Demand Requestor', 'BU Head', 'ITPMO', 'DBR', 'Admin'];
+const EVERYONE = ROLES;
+// demand.assign: ITPMO, the DBR (which inherits it) and Admins
+const ASSIGNERS: Role[] = ['ITPMO', 'DBR', 'Admin'];
+
+const SIGNS_OFF: Record<string, Role> = {
+  Screening: 'BU Head',
+  Assessment: 'ITPMO',
+  Evaluation: 'ITPMO',
+  Authorization: 'DBR',
+  'Business Case Development': 'ITPMO',
+};
+
+// Who may take each action from each state, acting as the demand's requestor; an
+// action missing here is no move at all
+const LEGAL: { stage: string; status: DemandStatus; moves: Partial<Record<WorkflowAction, Role[]>> }[] = [
+  { stage: 'Intake', status: 'Draft', moves: { submit: EVERYONE } },
+  { stage: 'Intake', status: 'Info Requested', moves: { resubmit: EVERYONE } },
+  ...Object.entries(SIGNS_OFF).flatMap(([stage, approver]) => [
+    { stage, status: 'Under Review' as const, moves: { approve: [approver], reject: [approver], return: [approver] } },
+    { stage, status: 'Info Requested' as const, moves: { resubmit: EVERYONE } },
+  ]),
+  { stage: 'Service Portfolio Entry', status: 'Approved', moves: { advance: ASSIGNERS } },
+  { stage: 'Service Implementation/Monitoring', status: 'Approved', moves: { advance: ASSIGNERS } },
+  { stage: 'Closure', status: 'Completed', moves: {} },
+];
+
+// Filled in enough for every stage's conditions, and costly enough that no route skips a stage
+function demandAt(stage: string, status: DemandStatus): Demand {
+  return {
+    id: 'DEM-TEST-001',
+    title: 'Test demand',
+    type: 'Strategic',
+    priority: 'HIGH',
+    status,
+    current_stage: stage,
+    stage_entered_at: new Date().toISOString(),
+    created_date: new Date().toISOString(),
+    description: 'Everything a stage asks for',
+    requestor: 'Tester',
+    requestor_id: 'oid-tester',
+    department: 'Finance',
+    estimated_cost: 250000,
+    business_justification: 'Needed',
+  } as Demand;
+}
+
+// Votes are counted by object id; here `oid-` and the name
+function vote(approver: string, status: 'Approved' | 'Rejected'): DemandApproval {
+  return {
+    id: approver,
+    role: 'DBR',
+    approver,
+    approverId: `oid-${approver}`,
+    status,
+    decidedAt: new Date().toISOString(),
+    stage: 'Authorization',
+    onBehalfOf: null,
+    onBehalfOfId: null,
+  };
+}
+
+// The Demand Board decides at Authorization before anyone signs its decision off
+function contextFor(stage: string, action: WorkflowAction): TransitionContext {
+  if (stage !== 'Authorization') return {};
+  if (action === 'approve') return { votes: [vote('Dee', 'Approved'), vote('Raj', 'Approved')] };
+  if (action === 'reject') return { votes: [vote('Dee', 'Rejected'), vote('Raj', 'Rejected')] };
+  return {};
+}
+
+describe('checkTransition matrix', () => {
+  for (const { stage, status, moves } of LEGAL) {
+    describe(`${status} at ${stage}`, () => {
+      for (const action of WORKFLOW_ACTIONS) {
+        const allowed = moves[action];
+        const current = demandAt(stage, status);
+
+        if (!allowed) {
+          it(`has no ${action} move`, () => {
+            expect(planTransition(DEFAULT_WORKFLOW, current, action)).toBeUndefined();
+          });
+          continue;
+        }
+
+        for (const role of ROLES) {
+          const legal = allowed.includes(role);
+          it(`${legal ? 'lets' : 'refuses'} ${role} ${action}`, () => {
+            const plan = planTransition(DEFAULT_WORKFLOW, current, action);
+            expect(plan).toBeDefined();
+            const attempt = () =>
+              checkTransition(DEFAULT_WORKFLOW, current, plan!.patch, { name: 'Tester', id: 'oid-tester', role }, contextFor(stage, action));
+            if (legal) expect(attempt()?.transition.action).toBe(action);
+            else expect(attempt).toThrow(IllegalTransitionError);
+          });
+        }
+      }
+    });
+  }
+});
+
+describe('checkTransition', () => {
+  const actor = { name: 'Tester', role: 'Admin' as const };
+
+  it('refuses skipping stages', () => {
+    const current = demandAt('Screening', 'Under Review');
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, { current_stage: 'Authorization' }, actor)).toThrow(IllegalTransitionError);
+  });
+
+  it('refuses approving a draft outright', () => {
+    const current = demandAt('Intake', 'Draft');
+    expect(() =>
+      checkTransition(DEFAULT_WORKFLOW, current, { status: 'Approved', current_stage: 'Service Portfolio Entry' }, actor)
+    ).toThrow(IllegalTransitionError);
+  });
+
+  it('refuses a status change that stays at the stage', () => {
+    const current = demandAt('Screening', 'Under Review');
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, { status: 'Approved' }, actor)).toThrow(IllegalTransitionError);
+  });
+
+  it('refuses leaving a terminal stage', () => {
+    const current = demandAt('Closure', 'Completed');
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, { current_stage: 'Intake', status: 'Draft' }, actor)).toThrow(
+      IllegalTransitionError
+    );
+  });
+
+  it('refuses a move without an acting user', () => {
+    const current = demandAt('Screening', 'Under Review');
+    const plan = planTransition(DEFAULT_WORKFLOW, current, 'approve')!;
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch)).toThrow(IllegalTransitionError);
+  });
+
+  it('refuses the Authorization sign-off before the board has decided', () => {
+    const current = demandAt('Authorization', 'Under Review');
+    const plan = planTransition(DEFAULT_WORKFLOW, current, 'approve')!;
+    const dbr = { name: 'Dee', role: 'DBR' as const };
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch, dbr, { votes: [vote('Dee', 'Approved')] })).toThrow(
+      IllegalTransitionError
+    );
+  });
+
+  it('lets only the requestor, or an Admin, resubmit', () => {
+    const current = demandAt('Screening', 'Info Requested');
+    const plan = planTransition(DEFAULT_WORKFLOW, current, 'resubmit')!;
+    const someoneElse = { name: 'Tester', id: 'oid-someone-else', role: 'ITPMO' as const };
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch, someoneElse)).toThrow(IllegalTransitionError);
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch, { ...someoneElse, role: 'Demand Requestor' })).toThrow(
+      IllegalTransitionError
+    );
+    expect(checkTransition(DEFAULT_WORKFLOW, current, plan.patch, { ...someoneElse, role: 'Admin' })?.transition.action).toBe('resubmit');
+  });
+
+  it('leaves writes that do not touch the workflow alone', () => {
+    expect(checkTransition(DEFAULT_WORKFLOW, demandAt('Screening', 'Under Review'), { title: 'Renamed' })).toBeUndefined();
+  });
+});
+
+describe('delegation and votes by object id', () => {
+  const today = new Date().toISOString().slice(0, 10);
+  const away: Delegation = {
+    id: 'D-1',
+    delegator: 'Bo Head',
+    delegatorId: 'oid-bo',
+    role: 'BU Head',
+    delegatorRoles: ['BU Head'],
+    delegate: 'Sam Lee',
+    delegateId: 'oid-sam',
+    startsOn: today,
+    endsOn: today,
+    departments: [],
+    types: [],
+    createdAt: null,
+  };
+  const current = demandAt('Screening', 'Under Review');
+  const plan = planTransition(DEFAULT_WORKFLOW, current, 'approve')!;
+  const sam = { name: 'Sam Lee', id: 'oid-sam', role: 'BU Head' as const, onBehalfOf: 'Bo Head', onBehalfOfId: 'oid-bo' };
+
+  it('lets the delegate act after either of them is renamed', () => {
+    const renamed = { ...sam, name: 'Samantha Lee', onBehalfOf: 'Bo Head-Smith' };
+    expect(checkTransition(DEFAULT_WORKFLOW, current, plan.patch, renamed, { delegations: [away] })?.transition.action).toBe('approve');
+  });
+
+  it('refuses someone else with the delegate\'s name', () => {
+    const namesake = { ...sam, id: 'oid-other-sam' };
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch, namesake, { delegations: [away] })).toThrow(IllegalTransitionError);
+  });
+
+  it('ignores a delegation of a role the delegator did not hold', () => {
+    const overreach = { ...away, delegatorRoles: ['Demand Requestor' as const] };
+    expect(findDelegation([overreach], current, sam)).toBeUndefined();
+    expect(() => checkTransition(DEFAULT_WORKFLOW, current, plan.patch, sam, { delegations: [overreach] })).toThrow(IllegalTransitionError);
+    expect(() => checkVote([overreach], current, { approver: 'Sam Lee', approverId: 'oid-sam', role: 'BU Head', onBehalfOf: 'Bo Head', onBehalfOfId: 'oid-bo' })).toThrow(
+      IllegalTransitionError
+    );
+  });
+
+  it('lets only the delegator hand over a role they hold', () => {
+    expect(() => checkDelegation(away, { id: 'oid-bo', roles: ['BU Head'] })).not.toThrow();
+    expect(() => checkDelegation(away, { id: 'oid-bo', roles: ['Demand Requestor'] })).toThrow(ForbiddenError);
+    expect(() => checkDelegation(away, { id: 'oid-sam', roles: ['BU Head'] })).toThrow(ForbiddenError);
+    expect(() => checkDelegation(away, undefined)).toThrow(ForbiddenError);
+  });
+
+  it('counts two members with the same name as two votes', () => {
+    const quorum = { rule: 'count' as const, count: 2, members: [], chair: null };
+    const namesakes = [vote('Dee', 'Approved'), { ...vote('Dee', 'Approved'), id: 'Dee-2', approverId: 'oid-other-dee' }];
+    expect(tallyQuorum(quorum, namesakes).decision).toBe('approved');
+  });
+
+  it('only hands over roles that approve somewhere', () => {
+    expect(delegableRoles(DEFAULT_WORKFLOW, ['Demand Requestor', 'BU Head'])).toEqual(['BU Head']);
+  });
+});
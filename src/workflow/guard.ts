@@ -0,0 +1,224 @@
+import { ForbiddenError, IllegalTransitionError } from '../ords/errors';
+import { hasPermission } from '../rbac/permissions';
+import { isAllowed } from '../rbac/policy';
+import type { Permission, Role } from '../rbac/types';
+import type { Delegation, Demand, DemandApproval } from '../types';
+import { sameValue } from '../utils/diff';
+import { delegationCovers, delegatorHeld } from './delegation';
+import { planTransition, stageFor, type TransitionPlan } from './engine';
+import { tallyQuorum } from './quorum';
+import { isEscalatedTo } from './sla';
+import { WORKFLOW_ACTIONS, type WorkflowAction, type WorkflowDefinition } from './types';
+
+/* ------------------------------
+ * Transition guard
+ * ------------------------------ */
+
+// Every write that touches status, current_stage or progress has to be one of the
+// workflow's moves, made by someone allowed to make it. Checked before the request
+// is sent; anything else is refused with IllegalTransitionError.
+
+// Who is making a change. A delegate acts with the role of the approver they stand
+// in for, named in onBehalfOf. The ids are AAD object ids; delegations are matched
+// by them, the names are what the history shows.
+export interface WorkflowActor {
+  name: string;
+  id?: string;
+  role: Role;
+  onBehalfOf?: string | null;
+  onBehalfOfId?: string | null;
+}
+
+// What some checks need besides the demand itself
+export interface TransitionContext {
+  // The counted votes at the demand's stage (see currentVotes), where it has a quorum
+  votes?: DemandApproval[];
+  // Needed when the actor acts on someone's behalf
+  delegations?: Delegation[];
+}
+
+const WORKFLOW_FIELDS = ['status', 'current_stage', 'progress'] as const;
+
+// What each action needs on top of the workflow allowing it
+const ACTION_PERMISSIONS: Record<WorkflowAction, Permission> = {
+  submit: 'demand.create',
+  resubmit: 'demand.update',
+  approve: 'demand.approve',
+  reject: 'demand.reject',
+  return: 'demand.reject',
+  advance: 'demand.assign',
+};
+
+// Sign-offs are also limited to the stage's approver (or, once the demand is overdue,
+// the role it escalated to)
+const APPROVER_ACTIONS: WorkflowAction[] = ['approve', 'reject', 'return'];
+
+type DemandState = Partial<Pick<Demand, 'status' | 'current_stage'>>;
+
+function describeState(state: DemandState): string {
+  return `${state.status ?? '(no status)'} at ${state.current_stage ?? '(no stage)'}`;
+}
+
+function illegal(message: string, demand: DemandState & { id?: string }, next: DemandState, action?: WorkflowAction) {
+  return new IllegalTransitionError(message, {
+    demandId: demand.id,
+    from: { stage: demand.current_stage ?? null, status: demand.status ?? '' },
+    to: { stage: next.current_stage ?? null, status: next.status ?? '' },
+    action,
+  });
+}
+
+// "Dana Reyes" or "Sam Lee on behalf of Dana Reyes"
+export function describeActor(actor: Pick<WorkflowActor, 'name' | 'onBehalfOf'>): string {
+  return actor.onBehalfOf ? `${actor.name} on behalf of ${actor.onBehalfOf}` : actor.name;
+}
+
+// The delegation `actor` acts under, if they act for someone and one covers the demand
+export function findDelegation(
+  delegations: Delegation[],
+  subject: Partial<Demand>,
+  actor: Pick<WorkflowActor, 'id' | 'onBehalfOfId'> & { role: string }
+): Delegation | undefined {
+  if (!actor.id || !actor.onBehalfOfId) return undefined;
+  return delegations.find(
+    (d) =>
+      d.delegatorId === actor.onBehalfOfId &&
+      d.delegateId === actor.id &&
+      d.role === actor.role &&
+      delegatorHeld(d) &&
+      delegationCovers(d, subject)
+  );
+}
+
+// Only the delegator hands over their approvals, and only for a role they hold.
+// `grantor` is the signed-in user with their verified roles.
+export function checkDelegation(
+  delegation: Pick<Delegation, 'delegator' | 'delegatorId' | 'role'>,
+  grantor: { id: string; roles: Role[] } | undefined
+): asserts grantor is { id: string; roles: Role[] } {
+  if (!grantor?.id || grantor.id !== delegation.delegatorId) {
+    throw new ForbiddenError(`Only ${delegation.delegator} can hand over their own approvals.`);
+  }
+  if (!grantor.roles.includes(delegation.role)) {
+    throw new ForbiddenError(`${delegation.delegator} does not hold the ${delegation.role} role and cannot hand it over.`);
+  }
+}
+
+// Whether a write needs checking at all
+export function touchesWorkflow(patch: Partial<Demand>): boolean {
+  return WORKFLOW_FIELDS.some((field) => patch[field] !== undefined);
+}
+
+// Whether the plan ends in exactly `next`; progress only counts when it is written
+function matches(plan: TransitionPlan, next: DemandState, progress: Demand['progress'] | undefined): boolean {
+  return (
+    sameValue(plan.patch.status, next.status) &&
+    sameValue(plan.patch.current_stage, next.current_stage) &&
+    (progress === undefined || sameValue(plan.patch.progress, progress))
+  );
+}
+
+// At a stage with a quorum, approving or rejecting is the board's outcome
+const DECISIONS: Partial<Record<WorkflowAction, 'approved' | 'rejected'>> = { approve: 'approved', reject: 'rejected' };
+
+/**
+ * Checks `patch` against the demand as it is now. Returns the move it makes, or
+ * undefined when it leaves status, stage and progress alone; throws
+ * IllegalTransitionError when the move is not allowed.
+ */
+export function checkTransition(
+  definition: WorkflowDefinition,
+  current: Demand,
+  patch: Partial<Demand>,
+  actor?: WorkflowActor,
+  { votes = [], delegations = [] }: TransitionContext = {}
+): TransitionPlan | undefined {
+  const changed = WORKFLOW_FIELDS.filter((field) => patch[field] !== undefined && !sameValue(patch[field], current[field]));
+  if (changed.length === 0) return undefined;
+
+  const next: DemandState = {
+    status: patch.status ?? current.status,
+    current_stage: patch.current_stage ?? current.current_stage ?? definition.initialStage,
+  };
+  const move = `${current.id}: ${describeState(current)} → ${describeState(next)}`;
+
+  // Conditions and routes see the demand as it will be, apart from the move itself
+  const subject: Partial<Demand> = {
+    ...current,
+    ...patch,
+    status: current.status,
+    current_stage: current.current_stage,
+    progress: current.progress,
+  };
+  let plan: TransitionPlan | undefined;
+  let action: WorkflowAction | undefined;
+  for (const candidate of WORKFLOW_ACTIONS) {
+    const to = candidate === 'return' ? (next.current_stage ?? undefined) : undefined;
+    const candidatePlan = planTransition(definition, subject, candidate, { to });
+    if (candidatePlan && matches(candidatePlan, next, patch.progress)) {
+      plan = candidatePlan;
+      action = candidate;
+      break;
+    }
+  }
+
+  if (!plan || !action) throw illegal(`${move} is not a move the "${definition.name}" workflow allows.`, current, next);
+  if (plan.unmet.length) throw illegal(`${move} is blocked:\n${plan.unmet.join('\n')}`, current, next, action);
+  if (!actor) throw illegal(`${move} needs an acting user and role.`, current, next, action);
+  if (actor.onBehalfOf && !findDelegation(delegations, current, actor)) {
+    throw illegal(`${describeActor(actor)} has no delegation as ${actor.role} covering ${current.id} today.`, current, next, action);
+  }
+  if (!hasPermission([actor.role], ACTION_PERMISSIONS[action])) {
+    throw illegal(`${actor.role} cannot ${action} demands (${move}).`, current, next, action);
+  }
+  // Answering a return is the requestor's, or whoever the access policy lets edit the demand
+  const editor = { id: actor.id ?? '', name: actor.name, roles: [actor.role] };
+  if (action === 'resubmit' && !isAllowed(editor, current, 'edit', { definition })) {
+    throw illegal(`Only the requestor can resubmit ${current.id} (${move}).`, current, next, action);
+  }
+  const stage = stageFor(definition, current.current_stage);
+  const stageKey = current.current_stage ?? definition.initialStage;
+  if (APPROVER_ACTIONS.includes(action) && stage?.approver !== actor.role && !isEscalatedTo(definition, current, actor.role)) {
+    throw illegal(`Only ${stage?.approver ?? 'nobody'} can ${action} at ${stageKey}; you are acting as ${actor.role}.`, current, next, action);
+  }
+  const decision = DECISIONS[action];
+  if (stage?.quorum && decision && tallyQuorum(stage.quorum, votes).decision !== decision) {
+    throw illegal(`${move} needs the ${stageKey} vote to have ${decision} it first.`, current, next, action);
+  }
+  return plan;
+}
+
+// A vote cast for someone else needs a delegation from them covering the demand
+export function checkVote(
+  delegations: Delegation[],
+  current: Demand,
+  vote: Pick<DemandApproval, 'approver' | 'approverId' | 'role' | 'onBehalfOf' | 'onBehalfOfId'>
+): void {
+  if (!vote.onBehalfOf) return;
+  const actor = { name: vote.approver, id: vote.approverId ?? undefined, role: vote.role, onBehalfOf: vote.onBehalfOf, onBehalfOfId: vote.onBehalfOfId };
+  if (!findDelegation(delegations, current, actor)) {
+    throw illegal(`${describeActor(actor)} has no delegation as ${vote.role} covering ${current.id} today.`, current, current);
+  }
+}
+
+/**
+ * Checks the state a new demand is created in: a draft at the initial stage, or the
+ * result of submitting one. Throws IllegalTransitionError otherwise.
+ */
+export function checkNewDemand(definition: WorkflowDefinition, form: Partial<Demand>): void {
+  const state: DemandState = {
+    status: form.status ?? definition.initialStatus,
+    current_stage: form.current_stage ?? definition.initialStage,
+  };
+  const isDraft = state.status === definition.initialStatus && state.current_stage === definition.initialStage;
+  if (isDraft && !form.progress) return;
+
+  const draft = { ...form, status: definition.initialStatus, current_stage: definition.initialStage };
+  const plan = planTransition(definition, draft, 'submit');
+  const submits = plan !== undefined && matches(plan, state, form.progress);
+  if (submits && plan.unmet.length === 0) return;
+
+  const initial = { status: definition.initialStatus, current_stage: definition.initialStage };
+  const reason = submits ? `:\n${plan.unmet.join('\n')}` : '.';
+  throw illegal(`A new demand cannot start as ${describeState(state)}${reason}`, initial, state, submits ? 'submit' : undefined);
+}
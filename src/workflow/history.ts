@@ -0,0 +1,106 @@
+import type { DemandTransition } from '../types';
+import { businessDaysBetween } from '../utils/businessDays';
+import type { WorkflowDefinition } from './types';
+
+/* ------------------------------
+ * Stage history
+ * ------------------------------ */
+
+// Every move a demand made, from the transition log (see transitionSchema). Entries
+// are oldest first, as the repository returns them.
+
+// A move that puts the demand (back) in front of the stage's approver: getting there,
+// or the resubmit after a return. Approving or rejecting at a stage is not one.
+function entersStage(t: DemandTransition, key: string): boolean {
+  return t.toStage === key && (t.fromStage !== key || t.action === 'resubmit');
+}
+
+function leavesStage(t: DemandTransition, key: string): boolean {
+  return t.fromStage === key && t.toStage !== key;
+}
+
+function latest(transitions: DemandTransition[], test: (t: DemandTransition) => boolean): DemandTransition | undefined {
+  for (let i = transitions.length - 1; i >= 0; i--) if (test(transitions[i])) return transitions[i];
+  return undefined;
+}
+
+// When the demand last came to the stage; null when the log has no such move
+export function stageEnteredAt(transitions: DemandTransition[], key: string): string | null {
+  return latest(transitions, (t) => entersStage(t, key))?.at ?? null;
+}
+
+export interface StageVisit {
+  enteredAt: string | null;
+  // The last move away from the stage, forwards or back
+  left: DemandTransition | null;
+}
+
+// The demand's latest time at the stage
+export function lastVisit(transitions: DemandTransition[], key: string): StageVisit {
+  const left = latest(transitions, (t) => leavesStage(t, key)) ?? null;
+  const before = left ? transitions.slice(0, transitions.indexOf(left)) : transitions;
+  return { enteredAt: stageEnteredAt(before, key), left };
+}
+
+/* ------------------------------
+ * Cycle time
+ * ------------------------------ */
+
+export interface StageCycleTime {
+  stage: string;
+  // Demands that have left the stage at least once
+  demands: number;
+  // Business days a demand spent at the stage, all visits together, on average
+  averageDays: number;
+}
+
+export interface CycleTimeReport {
+  stages: StageCycleTime[];
+  // From submit to the first approval or rejection that ends the review
+  decided: number;
+  averageDaysToDecision: number | null;
+}
+
+function byDemand(transitions: DemandTransition[]): Map<string, DemandTransition[]> {
+  const groups = new Map<string, DemandTransition[]>();
+  for (const t of transitions) groups.set(t.demandId, [...(groups.get(t.demandId) ?? []), t]);
+  return groups;
+}
+
+// Time at each stage and to a decision, in business days, over finished stays only;
+// `transitions` is the log for any number of demands
+export function cycleTimes(definition: WorkflowDefinition, transitions: DemandTransition[]): CycleTimeReport {
+  const days = (from: string, to: string) => businessDaysBetween(new Date(from), new Date(to), definition.holidays);
+  const atStage = new Map<string, number[]>();
+  const toDecision: number[] = [];
+
+  for (const history of byDemand(transitions).values()) {
+    // The time between one move and the next is spent at the stage the first led to
+    const spent = new Map<string, number>();
+    history.slice(0, -1).forEach((t, i) => {
+      if (t.toStage) spent.set(t.toStage, (spent.get(t.toStage) ?? 0) + days(t.at, history[i + 1].at));
+    });
+    for (const [stage, total] of spent) atStage.set(stage, [...(atStage.get(stage) ?? []), total]);
+
+    const submitted = history.find((t) => t.action === 'submit');
+    const decision = submitted
+      ? history.find(
+          (t) =>
+            t.at >= submitted.at &&
+            (t.action === 'approve' || t.action === 'reject') &&
+            !definition.reviewStatuses.includes(t.toStatus)
+        )
+      : undefined;
+    if (submitted && decision) toDecision.push(days(submitted.at, decision.at));
+  }
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  return {
+    stages: definition.stages.flatMap((s) => {
+      const totals = atStage.get(s.key);
+      return totals ? [{ stage: s.key, demands: totals.length, averageDays: average(totals) }] : [];
+    }),
+    decided: toDecision.length,
+    averageDaysToDecision: toDecision.length ? average(toDecision) : null,
+  };
+}
@@ -0,0 +1,54 @@
+export type {
+  ConditionField,
+  ConditionOperator,
+  ConditionValue,
+  QuorumRule,
+  StageQuorum,
+  WorkflowAction,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowRoute,
+  WorkflowStageDefinition,
+  WorkflowTransition,
+} from './types';
+export { CONDITION_FIELDS, CONDITION_OPERATORS, QUORUM_RULES, WORKFLOW_ACTIONS } from './types';
+export { DBR_COST_THRESHOLD, DEFAULT_WORKFLOW } from './definition';
+export type { PlanOptions, RouteSelection, TransitionPlan, WorkflowStage, WorkflowSubject } from './engine';
+export {
+  approverFor,
+  buildWorkflow,
+  canReview,
+  describeRoute,
+  findTransition,
+  isFinished,
+  meetsCondition,
+  planTransition,
+  returnTargets,
+  reviewQueueFilter,
+  selectRoute,
+  stageFor,
+  stageIndex,
+  stageProgress,
+  transitionsFrom,
+  unmetConditions,
+} from './engine';
+export type { QuorumDecision, QuorumTally } from './quorum';
+export { canVote, currentVotes, describeQuorum, tallyQuorum, voterOf } from './quorum';
+export type { CycleTimeReport, StageCycleTime, StageVisit } from './history';
+export { cycleTimes, lastVisit, stageEnteredAt } from './history';
+export type { SlaState, SlaStatus, SlaSummary } from './sla';
+export { escalationFilter, isEscalatedTo, slaStatus, slaTarget, summarizeSla } from './sla';
+export { delegableRoles, delegationCovers, delegationFor, delegationsTo, delegatorHeld, isDelegationActive, localDay } from './delegation';
+export type { TransitionContext, WorkflowActor } from './guard';
+export { checkDelegation, checkNewDemand, checkTransition, checkVote, describeActor, findDelegation, touchesWorkflow } from './guard';
+export {
+  LOCKED_WORKFLOW,
+  WorkflowConfigError,
+  getWorkflow,
+  getWorkflowError,
+  loadConfiguredWorkflow,
+  loadWorkflow,
+  parseWorkflow,
+  setWorkflow,
+  workflowProblems,
+} from './config';
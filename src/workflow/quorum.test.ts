@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { DemandApproval } from '../types';
+import { currentVotes, tallyQuorum, voterOf, type QuorumDecision } from './quorum';
+import type { QuorumRule, StageQuorum } from './types';
+
+// Board members by object id
+const BOARD = ['oid-a', 'oid-b', 'oid-c', 'oid-d'];
+
+function quorum(rule: QuorumRule, rest: Partial<StageQuorum> = {}): StageQuorum {
+  return { rule, count: null, members: BOARD, chair: null, ...rest };
+}
+
+function vote(voter: string, status: 'Approved' | 'Rejected', rest: Partial<DemandApproval> = {}): DemandApproval {
+  return {
+    id: `${voter}-${status}`,
+    role: 'DBR',
+    approver: voter.replace('oid-', 'Member '),
+    approverId: voter,
+    status,
+    decidedAt: new Date(2026, 9, 19, 10).toISOString(),
+    stage: 'Authorization',
+    onBehalfOf: null,
+    onBehalfOfId: null,
+    ...rest,
+  };
+}
+
+const yes = (...voters: string[]) => voters.map((v) => vote(v, 'Approved'));
+const no = (...voters: string[]) => voters.map((v) => vote(v, 'Rejected'));
+
+describe('tallyQuorum', () => {
+  const cases: [string, StageQuorum, DemandApproval[], QuorumDecision][] = [
+    ['all: every member approves', quorum('all'), yes(...BOARD), 'approved'],
+    ['all: one member still to vote', quorum('all'), yes('oid-a', 'oid-b', 'oid-c'), 'pending'],
+    ['all: one rejection decides', quorum('all'), [...yes('oid-a', 'oid-b'), ...no('oid-c')], 'rejected'],
+    ['any: one approval', quorum('any'), yes('oid-c'), 'approved'],
+    ['any: rejected once nobody is left to approve', quorum('any'), no(...BOARD), 'rejected'],
+    ['any: pending while someone may approve', quorum('any'), no('oid-a', 'oid-b', 'oid-c'), 'pending'],
+    ['majority: 3 of 4', quorum('majority'), yes('oid-a', 'oid-b', 'oid-c'), 'approved'],
+    ['majority: 3 of 4 against', quorum('majority'), no('oid-a', 'oid-b', 'oid-c'), 'rejected'],
+    ['majority: 2 of 4 so far', quorum('majority'), yes('oid-a', 'oid-b'), 'pending'],
+    ['majority: a tie with no chair', quorum('majority'), [...yes('oid-a', 'oid-b'), ...no('oid-c', 'oid-d')], 'rejected'],
+    ['count: 2 of 4', quorum('count', { count: 2 }), yes('oid-a', 'oid-d'), 'approved'],
+    ['count: 2 can no longer be reached', quorum('count', { count: 2 }), [...yes('oid-a'), ...no('oid-b', 'oid-c', 'oid-d')], 'rejected'],
+    ['count: open board, approvals first', quorum('count', { count: 2, members: [] }), yes('oid-x', 'oid-y'), 'approved'],
+    ['count: open board, rejections first', quorum('count', { count: 2, members: [] }), no('oid-x', 'oid-y'), 'rejected'],
+    ['votes from outside the board do not count', quorum('any'), yes('oid-outsider'), 'pending'],
+    ['votes without an object id do not count', quorum('any', { members: [] }), [vote('oid-a', 'Approved', { approverId: null })], 'pending'],
+  ];
+
+  it.each(cases)('%s', (_label, board, votes, decision) => {
+    expect(tallyQuorum(board, votes).decision).toBe(decision);
+  });
+
+  it('lets the chair break a tie', () => {
+    const board = quorum('majority', { chair: 'oid-c' });
+    const tally = tallyQuorum(board, [...yes('oid-a', 'oid-c'), ...no('oid-b', 'oid-d')]);
+    expect(tally).toMatchObject({ decision: 'approved', casting: true });
+    expect(tallyQuorum(board, [...yes('oid-a', 'oid-b'), ...no('oid-c', 'oid-d')])).toMatchObject({ decision: 'rejected', casting: true });
+  });
+
+  it('does not use the casting vote before everyone has voted', () => {
+    const board = quorum('majority', { chair: 'oid-c' });
+    expect(tallyQuorum(board, [...yes('oid-c'), ...no('oid-b')])).toMatchObject({ decision: 'pending', casting: false });
+  });
+
+  it('says who it is waiting on', () => {
+    expect(tallyQuorum(quorum('all'), yes('oid-a', 'oid-c')).waitingOn).toEqual(['oid-b', 'oid-d']);
+  });
+});
+
+describe('delegated votes', () => {
+  // Sam votes for member B while B is away
+  const forB = vote('oid-sam', 'Approved', { onBehalfOf: 'Member b', onBehalfOfId: 'oid-b' });
+
+  it('are the member\'s vote', () => {
+    expect(voterOf(forB)).toBe('oid-b');
+    expect(tallyQuorum(quorum('all'), [...yes('oid-a', 'oid-c', 'oid-d'), forB]).decision).toBe('approved');
+  });
+
+  it('count once with the member\'s own, the latest winning', () => {
+    const later = vote('oid-b', 'Rejected', { decidedAt: new Date(2026, 9, 19, 11).toISOString() });
+    const votes = currentVotes([forB, later], 'Authorization');
+    expect(votes).toEqual([later]);
+  });
+
+  it('do not count for someone off the board', () => {
+    const forOutsider = { ...forB, onBehalfOfId: 'oid-outsider' };
+    expect(tallyQuorum(quorum('any'), [forOutsider]).decision).toBe('pending');
+  });
+});
+
+describe('currentVotes', () => {
+  it('counts only votes at the stage since the demand came back to it', () => {
+    const before = vote('oid-a', 'Approved', { decidedAt: new Date(2026, 9, 1).toISOString() });
+    const elsewhere = vote('oid-b', 'Approved', { stage: 'Evaluation' });
+    const now = vote('oid-c', 'Approved');
+    expect(currentVotes([before, elsewhere, now], 'Authorization', new Date(2026, 9, 10).toISOString())).toEqual([now]);
+  });
+});
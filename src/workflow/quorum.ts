@@ -0,0 +1,119 @@
+import type { DemandApproval } from '../types';
+import type { StageQuorum } from './types';
+
+/* ------------------------------
+ * Votes
+ * ------------------------------ */
+
+// A stage with a quorum collects one vote per member in the approvals data. Only
+// votes cast since the demand last came to the stage count: after a return and a
+// resubmit the board votes again. Members are AAD object ids, so a vote only counts
+// when it carries one; votes from before approver_id was kept do not.
+
+export type QuorumDecision = 'approved' | 'rejected' | 'pending';
+
+// Whose vote it is (an object id): a delegate votes for the member they stand in for
+export function voterOf(vote: DemandApproval): string | null {
+  return vote.onBehalfOf ? vote.onBehalfOfId : vote.approverId;
+}
+
+// Each member's latest decision at the stage since `since` (see stageEnteredAt in ./history)
+export function currentVotes(approvals: DemandApproval[], key: string, since: string | null = null): DemandApproval[] {
+  const from = since ? Date.parse(since) : Number.NEGATIVE_INFINITY;
+  const latest = new Map<string, DemandApproval>();
+  for (const vote of approvals) {
+    const voter = voterOf(vote);
+    if (vote.stage !== key || vote.status === 'Pending' || !vote.decidedAt || !voter) continue;
+    const at = Date.parse(vote.decidedAt);
+    if (Number.isNaN(at) || at < from) continue;
+    const previous = latest.get(voter);
+    if (!previous || Date.parse(previous.decidedAt ?? '') <= at) latest.set(voter, vote);
+  }
+  return [...latest.values()];
+}
+
+// Open boards take anyone with the stage's role
+export function canVote(quorum: StageQuorum, userId: string): boolean {
+  return quorum.members.length === 0 || quorum.members.includes(userId);
+}
+
+/* ------------------------------
+ * Tally
+ * ------------------------------ */
+
+export interface QuorumTally {
+  decision: QuorumDecision;
+  // Object ids, like the members
+  approvals: string[];
+  rejections: string[];
+  // Members who have not voted yet; empty on an open board
+  waitingOn: string[];
+  // Approvals the stage needs; null for "all", where it is every member
+  needed: number | null;
+  // The chair's vote broke a tie
+  casting: boolean;
+}
+
+function approvalsNeeded(quorum: StageQuorum): number | null {
+  if (quorum.rule === 'any') return 1;
+  if (quorum.rule === 'count') return quorum.count ?? 1;
+  if (quorum.rule === 'majority') return Math.floor(quorum.members.length / 2) + 1;
+  return null;
+}
+
+function decide(quorum: StageQuorum, approvals: number, rejections: number, waiting: number): QuorumDecision {
+  const members = quorum.members.length;
+  const needed = approvalsNeeded(quorum) ?? members;
+  if (members === 0) {
+    // Open board: whichever side gets there first
+    if (approvals >= needed) return 'approved';
+    return rejections >= needed ? 'rejected' : 'pending';
+  }
+  switch (quorum.rule) {
+    case 'all':
+      if (rejections > 0) return 'rejected';
+      return approvals === members ? 'approved' : 'pending';
+    case 'majority':
+      if (approvals >= needed) return 'approved';
+      if (rejections >= needed) return 'rejected';
+      // A tie the chair cannot break is not a majority
+      return waiting === 0 ? 'rejected' : 'pending';
+    default:
+      if (approvals >= needed) return 'approved';
+      return approvals + waiting < needed ? 'rejected' : 'pending';
+  }
+}
+
+// Where the vote stands; `votes` as returned by currentVotes
+export function tallyQuorum(quorum: StageQuorum, votes: DemandApproval[]): QuorumTally {
+  const voters = votes.flatMap((v) => {
+    const voter = voterOf(v);
+    return voter && canVote(quorum, voter) ? [{ voter, status: v.status }] : [];
+  });
+  const approvals = voters.filter((v) => v.status === 'Approved').map((v) => v.voter);
+  const rejections = voters.filter((v) => v.status === 'Rejected').map((v) => v.voter);
+  const waitingOn = quorum.members.filter((m) => !approvals.includes(m) && !rejections.includes(m));
+  const tally = { approvals, rejections, waitingOn, needed: approvalsNeeded(quorum) };
+
+  // A majority vote split evenly once everyone has voted: the chair decides
+  const chairVote = voters.find((v) => v.voter === quorum.chair);
+  if (quorum.rule === 'majority' && waitingOn.length === 0 && approvals.length === rejections.length && chairVote) {
+    return { ...tally, decision: chairVote.status === 'Approved' ? 'approved' : 'rejected', casting: true };
+  }
+  return { ...tally, decision: decide(quorum, approvals.length, rejections.length, waitingOn.length), casting: false };
+}
+
+// "2 of 5 members", "Majority of 4 members, the chair breaking a tie"
+export function describeQuorum(quorum: StageQuorum, role: string | null): string {
+  const board = quorum.members.length ? `${quorum.members.length} members` : `${role ?? 'approver'} members`;
+  switch (quorum.rule) {
+    case 'all':
+      return `All ${board}`;
+    case 'any':
+      return `Any one of ${board}`;
+    case 'majority':
+      return `Majority of ${board}${quorum.chair ? ', the chair breaking a tie' : ''}`;
+    default:
+      return `${quorum.count ?? 1} of ${board}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { matchesFilter, toOrdsFilter } from '../ords/query';
+import type { Demand } from '../types';
+import { DEFAULT_WORKFLOW } from './definition';
+import { escalationFilter, isEscalatedTo, slaStatus } from './sla';
+
+// Monday 19 October 2026, midday; Screening gives the BU Head 3 business days
+const NOW = new Date(2026, 9, 19, 12);
+const day = (date: number, hours = 9) => new Date(2026, 9, date, hours).toISOString();
+
+function atScreening(enteredAt: string): Partial<Demand> {
+  return { id: 'DEM-1', status: 'Under Review', current_stage: 'Screening', stage_entered_at: enteredAt };
+}
+
+describe('slaStatus', () => {
+  it('counts business days since the demand got to its stage', () => {
+    expect(slaStatus(DEFAULT_WORKFLOW, atScreening(day(16)), NOW)).toMatchObject({ elapsed: 1, state: 'on-track', escalatedTo: null });
+    expect(slaStatus(DEFAULT_WORKFLOW, atScreening(day(14)), NOW)).toMatchObject({ elapsed: 3, state: 'due-soon' });
+    expect(slaStatus(DEFAULT_WORKFLOW, atScreening(day(13)), NOW)).toMatchObject({ elapsed: 4, state: 'breached', escalatedTo: 'ITPMO' });
+  });
+
+  it('runs no clock when nobody is waited on', () => {
+    expect(slaStatus(DEFAULT_WORKFLOW, { ...atScreening(day(1)), status: 'Info Requested' }, NOW)).toBeUndefined();
+  });
+});
+
+describe('escalationFilter', () => {
+  it('sends the cutoff as a $date, 3 business days back for Screening', () => {
+    expect(toOrdsFilter(escalationFilter(DEFAULT_WORKFLOW, 'ITPMO', NOW))).toEqual({
+      $and: [{ current_stage: { $in: ['Screening'] } }, { stage_entered_at: { $lt: { $date: new Date(2026, 9, 14).toISOString() } } }],
+    });
+  });
+
+  it('counts back from the last business day on a weekend', () => {
+    const sunday = new Date(2026, 9, 18, 12);
+    const q = JSON.stringify(toOrdsFilter(escalationFilter(DEFAULT_WORKFLOW, 'ITPMO', sunday)));
+    expect(q).toContain(JSON.stringify({ $date: new Date(2026, 9, 13).toISOString() }));
+  });
+
+  it('picks every stage below the role', () => {
+    const q = toOrdsFilter(escalationFilter(DEFAULT_WORKFLOW, 'DBR', NOW)) as { $or: unknown[] };
+    expect(q.$or).toHaveLength(3);
+    expect(JSON.stringify(q)).toMatch(/Assessment.*Evaluation.*Business Case Development/);
+  });
+
+  it('is undefined for a role nothing escalates to', () => {
+    expect(escalationFilter(DEFAULT_WORKFLOW, 'Demand Requestor', NOW)).toBeUndefined();
+  });
+
+  it('agrees with isEscalatedTo', () => {
+    const q = toOrdsFilter(escalationFilter(DEFAULT_WORKFLOW, 'ITPMO', NOW));
+    for (const entered of [day(12), day(13), day(13, 23), day(14, 0), day(16)]) {
+      const demand = atScreening(entered);
+      expect(matchesFilter(demand, q), entered).toBe(isEscalatedTo(DEFAULT_WORKFLOW, demand, 'ITPMO', NOW));
+    }
+  });
+});
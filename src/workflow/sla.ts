@@ -0,0 +1,110 @@
+import { BUSINESS_RULES } from '../constants/app';
+import { and, inList, lt, or, type Filter } from '../ords/query';
+import { nextRoleUp } from '../rbac/permissions';
+import type { Role } from '../rbac/types';
+import type { Demand } from '../types';
+import { addBusinessDays, businessDayOnOrBefore, businessDaysBetween } from '../utils/businessDays';
+import { stageFor, type WorkflowSubject } from './engine';
+import type { WorkflowDefinition, WorkflowStageDefinition } from './types';
+
+/* ------------------------------
+ * SLA clocks
+ * ------------------------------ */
+
+// While a demand waits on a stage's approver, a clock runs from stage_entered_at in
+// business days (the workflow's holidays and weekends do not count). Past the
+// stage's target the demand is overdue, and the role above the approver in
+// ROLE_PERMISSIONS can act on it too.
+
+export type SlaState = 'on-track' | 'due-soon' | 'breached';
+
+export interface SlaStatus {
+  stage: string;
+  // Business days allowed, and used so far
+  target: number;
+  elapsed: number;
+  // The last business day to decide on
+  dueOn: Date;
+  state: SlaState;
+  // Who an overdue demand has gone to as well; null when on time or nobody is above
+  escalatedTo: Role | null;
+}
+
+// Business days to decide in; null at a stage nobody signs off at
+export function slaTarget(stage: WorkflowStageDefinition): number | null {
+  return stage.approver ? (stage.slaDays ?? BUSINESS_RULES.DEFAULT_SLA_DAYS) : null;
+}
+
+// Where the demand's clock stands; undefined when none runs (nobody to wait on, or
+// no record of when the demand got to its stage)
+export function slaStatus(definition: WorkflowDefinition, subject: WorkflowSubject, now = new Date()): SlaStatus | undefined {
+  const stage = stageFor(definition, subject.current_stage);
+  const target = stage ? slaTarget(stage) : null;
+  if (!stage?.approver || target === null || !subject.status || !definition.reviewStatuses.includes(subject.status)) return undefined;
+  const entered = subject.stage_entered_at ? new Date(subject.stage_entered_at) : undefined;
+  if (!entered || Number.isNaN(entered.getTime())) return undefined;
+
+  const elapsed = businessDaysBetween(entered, now, definition.holidays);
+  const state: SlaState = elapsed > target ? 'breached' : target - elapsed <= 1 ? 'due-soon' : 'on-track';
+  return {
+    stage: stage.key,
+    target,
+    elapsed,
+    dueOn: addBusinessDays(entered, target, definition.holidays),
+    state,
+    escalatedTo: state === 'breached' ? nextRoleUp(stage.approver) : null,
+  };
+}
+
+// True when the demand is overdue and `role` is the one it escalated to
+export function isEscalatedTo(definition: WorkflowDefinition, subject: WorkflowSubject, role: Role, now = new Date()): boolean {
+  return slaStatus(definition, subject, now)?.escalatedTo === role;
+}
+
+// Demands escalated to `role`, as an ORDS filter; undefined when none can be
+export function escalationFilter(definition: WorkflowDefinition, role: Role, now = new Date()): Filter<Demand> | undefined {
+  const today = businessDayOnOrBefore(now, definition.holidays);
+  const parts = definition.stages.flatMap((stage) => {
+    const target = slaTarget(stage);
+    if (!stage.approver || target === null || nextRoleUp(stage.approver) !== role) return [];
+    // Got there before this day: more than `target` business days ago
+    const cutoff = addBusinessDays(today, -target, definition.holidays);
+    return [and<Demand>({ current_stage: inList(stage.key) }, { stage_entered_at: lt(cutoff) })];
+  });
+  if (parts.length === 0) return undefined;
+  return parts.length === 1 ? parts[0] : or(...parts);
+}
+
+/* ------------------------------
+ * Reporting
+ * ------------------------------ */
+
+export interface SlaSummary {
+  // Demands with a running clock
+  tracked: number;
+  onTrack: number;
+  dueSoon: number;
+  breached: number;
+  // Breached with someone to escalate to
+  escalated: number;
+  // Business days at the current stage, on average; null when nothing is tracked
+  averageElapsed: number | null;
+  // Breached demands per stage key
+  breachedByStage: Record<string, number>;
+}
+
+export function summarizeSla(definition: WorkflowDefinition, demands: WorkflowSubject[], now = new Date()): SlaSummary {
+  const clocks = demands.map((d) => slaStatus(definition, d, now)).filter((s): s is SlaStatus => s !== undefined);
+  const breached = clocks.filter((s) => s.state === 'breached');
+  const breachedByStage: Record<string, number> = {};
+  for (const s of breached) breachedByStage[s.stage] = (breachedByStage[s.stage] ?? 0) + 1;
+  return {
+    tracked: clocks.length,
+    onTrack: clocks.filter((s) => s.state === 'on-track').length,
+    dueSoon: clocks.filter((s) => s.state === 'due-soon').length,
+    breached: breached.length,
+    escalated: breached.filter((s) => s.escalatedTo !== null).length,
+    averageElapsed: clocks.length ? clocks.reduce((sum, s) => sum + s.elapsed, 0) / clocks.length : null,
+    breachedByStage,
+  };
+}
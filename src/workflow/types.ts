@@ -0,0 +1,140 @@
+import type { Role } from '../rbac/types';
+import type { Demand, DemandStatus } from '../types';
+
+/* ------------------------------
+ * Workflow definition
+ * ------------------------------ */
+
+// A workflow is data: the stages a demand passes through, who signs off at each,
+// and the moves allowed between them. The app ships one (definition.ts); another
+// can be loaded from JSON (config.ts) without touching the code.
+
+// "return" sends a demand back to an earlier stage with questions; "resubmit" is the
+// requestor's answer, putting it back in review
+export const WORKFLOW_ACTIONS = ['submit', 'approve', 'reject', 'return', 'resubmit', 'advance'] as const;
+
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+// Demand fields a condition may test
+export const CONDITION_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'priority',
+  'department',
+  'requestor',
+  'estimated_cost',
+  'roi',
+  'business_justification',
+  'expected_benefits',
+  'risk_assessment',
+  'success_criteria',
+  'budget_source',
+  'cost_category',
+  'expected_start_date',
+  'expected_delivery',
+] as const satisfies readonly (keyof Demand)[];
+
+export type ConditionField = (typeof CONDITION_FIELDS)[number];
+
+export const CONDITION_OPERATORS = ['present', 'equals', 'in', 'gt', 'gte', 'lt', 'lte'] as const;
+
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+export type ConditionValue = string | number | (string | number)[];
+
+// One test on one field, e.g. { field: 'estimated_cost', op: 'gte', value: 100000 }
+export interface WorkflowCondition {
+  field: ConditionField;
+  op: ConditionOperator;
+  // Not used by "present"; a list for "in"
+  value: ConditionValue | null;
+  // Shown to the user when the condition is not met
+  message: string | null;
+}
+
+// How a stage with several approvers decides:
+// - all: every member approves; one rejection rejects
+// - any: one approval is enough; it is rejected once everyone has rejected
+// - majority: more than half of the members, one way or the other
+// - count: `count` approvals ("N of M"); rejected once that can no longer be reached
+export const QUORUM_RULES = ['all', 'any', 'majority', 'count'] as const;
+
+export type QuorumRule = (typeof QUORUM_RULES)[number];
+
+// A board that votes at a stage, e.g. the Demand Board at Authorization
+export interface StageQuorum {
+  rule: QuorumRule;
+  // Approvals needed for "count"
+  count: number | null;
+  // Who votes, by AAD object id. Empty: anyone with the stage's approver role, in
+  // which case "any" and "count" decide on whichever side reaches the number first.
+  members: string[];
+  // Has the casting vote when a majority vote ties; one of the members
+  chair: string | null;
+}
+
+export interface WorkflowStageDefinition {
+  // Stored in current_stage
+  key: string;
+  name: string;
+  description: string;
+  // Signs off (approve/reject) at this stage; null where nobody does
+  approver: Role | null;
+  // Several people with that role vote; null when one sign-off decides
+  quorum: StageQuorum | null;
+  // Business days the approver has to decide in; null for BUSINESS_RULES.DEFAULT_SLA_DAYS.
+  // Only counts while the demand waits on the approver.
+  slaDays: number | null;
+  // Must all hold for a demand to move into / out of the stage
+  entry: WorkflowCondition[];
+  exit: WorkflowCondition[];
+  // Nothing moves out of a terminal stage
+  terminal: boolean;
+}
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  from: string[];
+  // Only while the demand has one of these statuses; empty for any
+  statuses: DemandStatus[];
+  // null: the demand stays at its stage (e.g. a rejection). For "return" this is
+  // only the default; the approver picks any earlier stage on the demand's route.
+  to: string | null;
+  // Status the demand has afterwards
+  status: DemandStatus;
+}
+
+// Part of the workflow picked by demand attributes, e.g. "Compliance demands skip
+// Business Case Development". Every route whose conditions hold applies.
+export interface WorkflowRoute {
+  id: string;
+  name: string;
+  description: string;
+  // All must hold; an empty list applies to every demand
+  when: WorkflowCondition[];
+  // Stages the demand passes over
+  skip: string[];
+  // Stages kept even when another route skips them
+  require: string[];
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  version: number;
+  // Where new demands start, and their status while they are drafts
+  initialStage: string;
+  initialStatus: DemandStatus;
+  // Statuses in which a stage's approver can act
+  reviewStatuses: DemandStatus[];
+  // Statuses that end the workflow wherever the demand is
+  terminalStatuses: DemandStatus[];
+  // In display order
+  stages: WorkflowStageDefinition[];
+  transitions: WorkflowTransition[];
+  // Applied in order; without any, every demand goes through every stage
+  routes: WorkflowRoute[];
+  // Days (YYYY-MM-DD) SLA clocks do not run on, besides weekends
+  holidays: string[];
+}
@@ -1,16 +1,25 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import type { ProxyOptions } from 'vite'
+import { basicAuthorization, DEFAULT_MOCK_CREDENTIALS, MOCK_ORDS_BASE_PATH, mockOrdsPlugin } from './mock/ordsServer'
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '')
-  
+
+  // `vite --mode mock` (npm run dev:mock) serves /api from the local mock ORDS instead
+  const mock = mode === 'mock' || env.VITE_API_TARGET === 'mock'
+  const mockPort = Number(env.MOCK_ORDS_PORT || 8787)
+  // Set MOCK_ORDS_ANONYMOUS=true to see the 401s an unauthenticated client gets on writes
+  const mockAuthorization = env.MOCK_ORDS_ANONYMOUS === 'true' ? undefined : basicAuthorization(DEFAULT_MOCK_CREDENTIALS)
+
   return {
-    plugins: [react()],
+    plugins: [react(), ...(mock ? [mockOrdsPlugin(mockPort)] : [])],
     server: {
       proxy: {
         '/api': {
-          target: env.VITE_API_TARGET || 'https://localhost:8080/ords/itdm',
+          target: mock
+            ? `http://127.0.0.1:${mockPort}${MOCK_ORDS_BASE_PATH}`
+            : env.VITE_API_TARGET || 'https://localhost:8080/ords/itdm',
           changeOrigin: true,
           secure: false, // Disable SSL verification due to upstream certificate issues
           rewrite: p => p.replace(/^\/api/, ''),
@@ -19,6 +28,7 @@ export default defineConfig(({ mode }) => {
             proxy.on('proxyReq', (proxyReq: any) => {
               try { 
                 proxyReq.removeHeader('origin');
+                if (mock && mockAuthorization) proxyReq.setHeader('authorization', mockAuthorization);
               } catch (error) {
                 // Error handling for origin header removal
               }
@@ -28,4 +38,4 @@ export default defineConfig(({ mode }) => {
       }
     }
   }
-})
\ No newline at end of file
+})